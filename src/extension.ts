@@ -1,10 +1,19 @@
 import * as vscode from 'vscode';
 import { Logger } from './utils/logger';
-import { MutagenService } from './services/mutagenService';
+import { MINIMUM_MUTAGEN_VERSION, MutagenService } from './services/mutagenService';
 import { SessionsTreeDataProvider } from './providers/sessionsTreeDataProvider';
 import { StatusBarManager } from './managers/statusBarManager';
+import { DiagnosticsManager } from './managers/diagnosticsManager';
 import { CommandManager } from './managers/commandManager';
 import { ConnectionProfileService } from './services/connectionProfileService';
+import { MutagenProjectService } from './services/projectService';
+import { SessionStateSource } from './services/sessionStateSource';
+import { SessionDetailsPanel } from './panels/sessionDetailsPanel';
+import { SyncFileDecorationProvider } from './providers/syncFileDecorationProvider';
+import { ConflictBackupsTreeDataProvider } from './providers/conflictBackupsTreeDataProvider';
+import { ConflictBackupService } from './services/conflictBackupService';
+import { ConflictHistoryTreeDataProvider } from './providers/conflictHistoryTreeDataProvider';
+import { ConflictHistoryService } from './services/conflictHistoryService';
 
 let statusBarManager: StatusBarManager | undefined;
 let mutagenService: MutagenService | undefined;
@@ -40,6 +49,18 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
     const version = await service.getVersion();
     Logger.info(`Mutagen version: ${version}`);
 
+    if (!service.isSupportedVersion()) {
+        Logger.warn(`Mutagen ${version} is older than the minimum supported version ${MINIMUM_MUTAGEN_VERSION}`);
+        void vscode.window.showWarningMessage(
+            `Mutagen ${version} is older than the minimum supported version ${MINIMUM_MUTAGEN_VERSION}. Some features may not work; please upgrade Mutagen.`,
+            'Install Instructions'
+        ).then(action => {
+            if (action === 'Install Instructions') {
+                vscode.env.openExternal(vscode.Uri.parse('https://mutagen.io/documentation/introduction/installation'));
+            }
+        });
+    }
+
     const config = vscode.workspace.getConfiguration('mutagen');
     if (config.get<boolean>('autoStartDaemon', true)) {
         const daemonStatus = await service.getDaemonStatus();
@@ -53,25 +74,96 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
         }
     }
 
-    const treeProvider = new SessionsTreeDataProvider();
+    const stateSource = new SessionStateSource();
+    context.subscriptions.push(stateSource);
+
+    const projectService = new MutagenProjectService();
+    const treeProvider = new SessionsTreeDataProvider(stateSource, projectService, context.workspaceState);
+    context.subscriptions.push(treeProvider);
     const treeView = vscode.window.createTreeView('mutagen.sessions', {
         treeDataProvider: treeProvider,
-        showCollapseAll: true
+        showCollapseAll: true,
+        canSelectMany: true
     });
     context.subscriptions.push(treeView);
 
+    const updateFilterMessage = () => {
+        treeView.message = treeProvider.describeFilter();
+        void vscode.commands.executeCommand('setContext', 'mutagen.sessionsFiltered', !!treeProvider.getFilter());
+    };
+    context.subscriptions.push(
+        treeProvider.onDidChangeFilter(updateFilterMessage),
+        stateSource.onDidChangeSessions(() => {
+            if (treeProvider.getFilter()) {
+                updateFilterMessage();
+            }
+        })
+    );
+
+    context.subscriptions.push(new DiagnosticsManager(treeProvider));
+
+    const fileDecorationProvider = new SyncFileDecorationProvider(treeProvider);
+    context.subscriptions.push(
+        fileDecorationProvider,
+        vscode.window.registerFileDecorationProvider(fileDecorationProvider)
+    );
+
     statusBarManager = new StatusBarManager(context);
+    context.subscriptions.push(
+        stateSource.onDidChangeSessions(sessions => {
+            statusBarManager?.updateStatus(sessions);
+            SessionDetailsPanel.currentPanel?.updateFromSessions(sessions);
+        })
+    );
+
     connectionProfileService = new ConnectionProfileService(context);
-    commandManager = new CommandManager(treeProvider, statusBarManager, context.extensionUri, connectionProfileService);
-    commandManager.registerCommands(context);
 
-    await treeProvider.loadSessions();
-    statusBarManager.updateStatus(treeProvider.getSessions());
+    const backupService = new ConflictBackupService(context);
+    const backupsTreeProvider = new ConflictBackupsTreeDataProvider(backupService);
+    context.subscriptions.push(
+        backupService,
+        backupsTreeProvider,
+        vscode.window.registerTreeDataProvider('mutagen.conflictBackups', backupsTreeProvider)
+    );
+    void backupService.pruneBackups();
 
-    statusBarManager.startAutoRefresh(async () => {
-        await treeProvider.loadSessions();
-        statusBarManager?.updateStatus(treeProvider.getSessions());
+    const historyService = new ConflictHistoryService(context);
+    const historyTreeProvider = new ConflictHistoryTreeDataProvider(historyService);
+    const historyView = vscode.window.createTreeView('mutagen.conflictHistory', {
+        treeDataProvider: historyTreeProvider
     });
+    const updateHistoryFilterMessage = () => {
+        historyView.message = historyTreeProvider.describeFilter();
+        void vscode.commands.executeCommand('setContext', 'mutagen.conflictHistoryFiltered', !!historyTreeProvider.getSessionFilter());
+    };
+    context.subscriptions.push(
+        historyService,
+        historyTreeProvider,
+        historyView,
+        historyTreeProvider.onDidChangeFilter(updateHistoryFilterMessage),
+        historyService.onDidChangeHistory(() => {
+            if (historyTreeProvider.getSessionFilter()) {
+                updateHistoryFilterMessage();
+            }
+        })
+    );
+
+    commandManager = new CommandManager(
+        treeProvider,
+        statusBarManager,
+        context.extensionUri,
+        connectionProfileService,
+        projectService,
+        context.globalStorageUri,
+        backupService,
+        context.workspaceState,
+        historyService,
+        historyTreeProvider
+    );
+    commandManager.registerCommands(context);
+
+    // The first load also opens the monitor stream (or polling fallback) that keeps state current
+    await treeProvider.loadSessions();
 
     await autoRestoreConnections();
     await commandManager.refresh();
@@ -80,12 +172,18 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
         vscode.workspace.onDidChangeConfiguration(e => {
             if (e.affectsConfiguration('mutagen')) {
                 service.updateConfig();
+                if (e.affectsConfiguration('mutagen.executablePath')) {
+                    void service.getVersion();
+                }
                 statusBarManager?.updateConfig();
                 Logger.updateConfig();
-                statusBarManager?.startAutoRefresh(async () => {
-                    await treeProvider.loadSessions();
-                    statusBarManager?.updateStatus(treeProvider.getSessions());
-                });
+                stateSource.updateConfig();
+                treeProvider.updateConfig();
+                fileDecorationProvider.updateConfig();
+                if (e.affectsConfiguration('mutagen.conflictBackups')) {
+                    void backupService.pruneBackups();
+                }
+                statusBarManager?.updateStatus(stateSource.getSessions());
             }
         }),
         vscode.workspace.onDidChangeWorkspaceFolders(e => {
@@ -93,6 +191,18 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
         })
     );
 
+    // Project files and their lock files change when projects are added, started or terminated
+    const projectFileWatcher = vscode.workspace.createFileSystemWatcher('**/mutagen.yml{,.lock}');
+    const refreshProjects = () => {
+        void commandManager?.refresh();
+    };
+    context.subscriptions.push(
+        projectFileWatcher,
+        projectFileWatcher.onDidCreate(refreshProjects),
+        projectFileWatcher.onDidChange(refreshProjects),
+        projectFileWatcher.onDidDelete(refreshProjects)
+    );
+
     Logger.info('Mutagen extension activated');
 }
 
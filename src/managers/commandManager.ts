@@ -1,10 +1,58 @@
 import * as fs from 'fs/promises';
 import * as cp from 'child_process';
+import * as os from 'os';
 import * as path from 'path';
 import * as vscode from 'vscode';
-import { Conflict, MutagenEndpoint, MutagenSession, CreateSessionOptions } from '../models/session';
-import { MutagenService } from '../services/mutagenService';
-import { SessionsTreeDataProvider, SessionTreeItem } from '../providers/sessionsTreeDataProvider';
+import {
+    AdvancedSessionOptions,
+    COMPRESSION_ALGORITHMS,
+    CONFLICT_POLICY_STRATEGIES,
+    Conflict,
+    ConflictPolicy,
+    CreateSessionOptions,
+    EndpointAddress,
+    EndpointSessionOptions,
+    IGNORE_SYNTAXES,
+    MutagenEndpoint,
+    MutagenProject,
+    MutagenSession,
+    PERMISSIONS_MODES,
+    PROBE_MODES,
+    SCAN_MODES,
+    STAGE_MODES,
+    SYMLINK_MODES,
+    WATCH_MODES,
+    extractAdvancedOptions,
+    formatFileSize,
+    formatLabels,
+    getUserLabels,
+    toSessionSummary
+} from '../models/session';
+import { LabelSelectorCommand, MutagenCapability, MutagenService } from '../services/mutagenService';
+import { MutagenProjectService } from '../services/projectService';
+import {
+    CommandCancelledError,
+    MutagenError,
+    MutagenErrorAction,
+    SessionReplacementError,
+    classifyMutagenError
+} from '../services/mutagenErrors';
+import {
+    SessionFilterPreset,
+    SessionGroupingMode,
+    SessionsTreeDataProvider,
+    SessionTreeItem
+} from '../providers/sessionsTreeDataProvider';
+import { RemoteFileContentProvider } from '../providers/remoteFileContentProvider';
+import { ConflictBackupTreeItem } from '../providers/conflictBackupsTreeDataProvider';
+import { ConflictBackupService, ConflictBackupSide } from '../services/conflictBackupService';
+import { ConflictHistoryTreeDataProvider } from '../providers/conflictHistoryTreeDataProvider';
+import {
+    ConflictHistoryEntry,
+    ConflictHistoryService,
+    ConflictHistorySource,
+    ConflictResolution
+} from '../services/conflictHistoryService';
 import { StatusBarManager } from '../managers/statusBarManager';
 import { Logger } from '../utils/logger';
 import { SessionDetailsPanel } from '../panels/sessionDetailsPanel';
@@ -14,11 +62,15 @@ import {
     UpsertConnectionProfileInput
 } from '../services/connectionProfileService';
 import {
+    getConflictPolicies,
     getMergedGlobalIgnorePatterns,
     getWorkspaceFolderForPath,
     mergeIgnorePatterns,
     isPathRelatedToWorkspaceFolder
 } from '../utils/config';
+import { runWithConcurrency } from '../utils/concurrency';
+import { matchesPathPattern } from '../utils/ignore';
+import { buildConflictMarkedText, hasConflictMarkers, isProbablyBinary } from '../utils/merge';
 
 interface SyncModeQuickPickItem extends vscode.QuickPickItem {
     value: NonNullable<CreateSessionOptions['mode']>;
@@ -36,6 +88,118 @@ interface SavedSessionQuickPickItem extends vscode.QuickPickItem {
     profile: ConnectionProfile;
 }
 
+interface ProjectQuickPickItem extends vscode.QuickPickItem {
+    project: MutagenProject;
+}
+
+type ProjectAction = 'start' | 'terminate' | 'flush' | 'pause' | 'resume';
+
+interface GroupingQuickPickItem extends vscode.QuickPickItem {
+    value: SessionGroupingMode;
+}
+
+interface FilterQuickPickItem extends vscode.QuickPickItem {
+    value: SessionFilterPreset | 'text' | 'clear';
+}
+
+interface LabelSelectorQuickPickItem extends vscode.QuickPickItem {
+    selector: string | undefined;
+}
+
+interface ConflictPolicyQuickPickItem extends vscode.QuickPickItem {
+    value: number | 'add' | 'settings' | 'done';
+}
+
+interface ConflictStrategyQuickPickItem extends vscode.QuickPickItem {
+    value: ConflictPolicy['strategy'] | 'remove';
+}
+
+const CONFLICT_POLICY_STRATEGY_LABELS: Record<ConflictPolicy['strategy'], { label: string; description: string }> = {
+    local: { label: 'Local Wins', description: 'Overwrite the remote copy with the local one' },
+    remote: { label: 'Remote Wins', description: 'Overwrite the local copy with the remote one' },
+    newest: { label: 'Newest Wins', description: 'Keep whichever side was modified most recently' },
+    'keep-both': { label: 'Keep Both', description: 'Save the remote copy as name.remote-<host>.ext, then keep local' }
+};
+
+// Mutagen follows Kubernetes label syntax: optional DNS prefix, alphanumeric name and value
+const LABEL_KEY_PATTERN = /^(?:[a-z0-9](?:[-a-z0-9.]*[a-z0-9])?\/)?[A-Za-z0-9](?:[-A-Za-z0-9_.]*[A-Za-z0-9])?$/;
+const LABEL_VALUE_PATTERN = /^(?:[A-Za-z0-9](?:[-A-Za-z0-9_.]*[A-Za-z0-9])?)?$/;
+
+type AdvancedOptionKey = Exclude<keyof AdvancedSessionOptions, 'alpha' | 'beta'>;
+
+interface AdvancedOptionField {
+    key: AdvancedOptionKey;
+    label: string;
+    // Available as an -alpha/-beta override
+    perEndpoint: boolean;
+    choices?: readonly string[];
+    numeric?: boolean;
+    placeHolder?: string;
+    pattern?: RegExp;
+    patternHint?: string;
+    // Hidden when the installed Mutagen release lacks it
+    capability?: MutagenCapability;
+}
+
+interface AdvancedOptionQuickPickItem extends vscode.QuickPickItem {
+    value: AdvancedOptionKey | 'alpha' | 'beta' | 'done' | 'cancel';
+}
+
+interface OptionChoiceQuickPickItem extends vscode.QuickPickItem {
+    value: string | undefined;
+}
+
+const ADVANCED_OPTION_FIELDS: readonly AdvancedOptionField[] = [
+    { key: 'permissionsMode', label: 'Permissions Mode', perEndpoint: false, choices: PERMISSIONS_MODES },
+    {
+        key: 'defaultFileMode',
+        label: 'Default File Mode',
+        perEndpoint: true,
+        placeHolder: '0644',
+        pattern: /^0?[0-7]{3}$/,
+        patternHint: 'Enter an octal mode such as 0644'
+    },
+    {
+        key: 'defaultDirectoryMode',
+        label: 'Default Directory Mode',
+        perEndpoint: true,
+        placeHolder: '0755',
+        pattern: /^0?[0-7]{3}$/,
+        patternHint: 'Enter an octal mode such as 0755'
+    },
+    { key: 'defaultOwner', label: 'Default Owner', perEndpoint: true, placeHolder: 'user or id:1000' },
+    { key: 'defaultGroup', label: 'Default Group', perEndpoint: true, placeHolder: 'group or id:1000' },
+    { key: 'scanMode', label: 'Scan Mode', perEndpoint: true, choices: SCAN_MODES },
+    { key: 'stageMode', label: 'Stage Mode', perEndpoint: true, choices: STAGE_MODES },
+    { key: 'probeMode', label: 'Probe Mode', perEndpoint: true, choices: PROBE_MODES },
+    {
+        key: 'maxStagingFileSize',
+        label: 'Max Staging File Size',
+        perEndpoint: true,
+        placeHolder: '100MB',
+        pattern: /^\d+\s*(?:[kmgt]i?)?b?$/i,
+        patternHint: 'Enter a size such as 500KB, 100MB or 2GiB'
+    },
+    { key: 'maxEntryCount', label: 'Max Entry Count', perEndpoint: false, numeric: true, placeHolder: '500000' },
+    { key: 'watchMode', label: 'Watch Mode', perEndpoint: true, choices: WATCH_MODES },
+    {
+        key: 'watchPollingInterval',
+        label: 'Watch Polling Interval (seconds)',
+        perEndpoint: true,
+        numeric: true,
+        placeHolder: '10'
+    },
+    {
+        key: 'ignoreSyntax',
+        label: 'Ignore Syntax',
+        perEndpoint: false,
+        choices: IGNORE_SYNTAXES,
+        capability: 'ignoreSyntax'
+    },
+    { key: 'symlinkMode', label: 'Symlink Mode', perEndpoint: false, choices: SYMLINK_MODES },
+    { key: 'compression', label: 'Compression', perEndpoint: false, choices: COMPRESSION_ALGORITHMS }
+];
+
 interface SessionConfigDraft {
     localPath: string;
     remotePath: string;
@@ -43,55 +207,171 @@ interface SessionConfigDraft {
     mode: NonNullable<CreateSessionOptions['mode']>;
     ignoreVcs: boolean | undefined;
     sessionIgnorePaths: string[];
+    labels: Record<string, string>;
+    advancedOptions: AdvancedSessionOptions;
+    // Recreation keeps the original endpoint order, since one-way and resolved modes depend on it
+    localIsAlpha: boolean;
+    paused?: boolean;
 }
 
 interface SessionConfigActionQuickPickItem extends vscode.QuickPickItem {
-    value: 'editName' | 'editLocalPath' | 'editRemotePath' | 'editMode' | 'editIgnoreVcs' | 'editIgnorePaths' | 'apply' | 'cancel';
+    value:
+        | 'editName'
+        | 'editLocalPath'
+        | 'editRemotePath'
+        | 'editMode'
+        | 'editIgnoreVcs'
+        | 'editIgnorePaths'
+        | 'editLabels'
+        | 'editAdvanced'
+        | 'apply'
+        | 'cancel';
 }
 
+type BulkSessionCommand = LabelSelectorCommand | 'reset';
+
+const BULK_SESSION_CONCURRENCY = 4;
+
+const BULK_SESSION_COMMAND_LABELS: Record<BulkSessionCommand, { action: string; done: string }> = {
+    pause: { action: 'Pause', done: 'paused' },
+    resume: { action: 'Resume', done: 'resumed' },
+    flush: { action: 'Flush', done: 'flushed' },
+    reset: { action: 'Reset', done: 'reset' },
+    terminate: { action: 'Terminate', done: 'terminated' }
+};
+
 type ConflictDirection = 'local' | 'remote';
 
 interface HandledConflictRecord {
-    direction: ConflictDirection;
+    direction: ConflictResolution;
     signature: string;
     at: number;
 }
 
+// Workspace state key for handled records, stored as { [sessionIdentifier]: { [conflictRoot]: record } }
+const HANDLED_CONFLICTS_STATE_KEY = 'mutagen.handledConflicts.v1';
+const HANDLED_CONFLICT_DIRECTIONS: readonly string[] = ['local', 'remote', 'merge', 'keep-both'];
+
+function isHandledConflictDirection(value: unknown): value is ConflictResolution {
+    return typeof value === 'string' && HANDLED_CONFLICT_DIRECTIONS.includes(value);
+}
+
+// What the accept commands can do to a conflict; merge goes through the merge editor instead
+type ConflictAcceptMode = ConflictDirection | 'keep-both';
+
+const CONFLICT_ACCEPT_TITLES: Record<ConflictAcceptMode, string> = {
+    local: 'Accept Local',
+    remote: 'Accept Remote',
+    'keep-both': 'Keep Both'
+};
+
+type ConflictPreviewAction = 'overwrite' | 'create' | 'delete' | 'none';
+
+const CONFLICT_PREVIEW_ACTIONS: Record<ConflictPreviewAction, { icon: string; label: string }> = {
+    overwrite: { icon: 'diff-modified', label: 'Overwrite' },
+    create: { icon: 'diff-added', label: 'Create' },
+    delete: { icon: 'diff-removed', label: 'Delete' },
+    none: { icon: 'circle-slash', label: 'No change' }
+};
+
+const CONFLICT_PREVIEW_CONCURRENCY = 4;
+
+interface ConflictPreviewItem extends vscode.QuickPickItem {
+    conflict: Conflict;
+    // Set when the endpoints could not be inspected; such rows start unticked
+    inspectionFailed?: boolean;
+}
+
+interface EndpointPathInfo {
+    state: 'file' | 'directory' | 'missing';
+    size?: number;
+}
+
 interface ConflictEndpoints {
     localEndpoint: MutagenEndpoint;
     remoteEndpoint: MutagenEndpoint;
 }
 
+interface DockerTarget {
+    container: string;
+    user?: string;
+    environment: Record<string, string>;
+}
+
+interface ConflictMergeContext {
+    sessionIdentifier: string;
+    conflict: Conflict;
+    localPath: string;
+    remoteEndpoint: MutagenEndpoint;
+    remotePath: string;
+}
+
 export class CommandManager {
     private service: MutagenService;
     private treeProvider: SessionsTreeDataProvider;
     private statusBar: StatusBarManager;
     private extensionUri: vscode.Uri;
     private profileService: ConnectionProfileService;
-    private handledConflictsBySession = new Map<string, Map<string, HandledConflictRecord>>();
+    private projectService: MutagenProjectService;
+    private backupService: ConflictBackupService;
+    private workspaceState: vscode.Memento;
+    private historyService: ConflictHistoryService;
+    private historyTreeProvider: ConflictHistoryTreeDataProvider;
+    private handledConflictsBySession: Map<string, Map<string, HandledConflictRecord>>;
+    private readonly remoteDocuments = new RemoteFileContentProvider();
+    private readonly mergeContexts = new Map<string, ConflictMergeContext>();
+    private readonly mergeRoot: string;
+    // Sessions with a policy run or manual accept in progress; both write endpoints, so they never overlap
+    private readonly resolvingSessions = new Set<string>();
+    // Sessions whose new-conflict events arrived during such a run and still need their policies applied
+    private readonly deferredPolicySessions = new Set<string>();
 
     constructor(
         treeProvider: SessionsTreeDataProvider,
         statusBar: StatusBarManager,
         extensionUri: vscode.Uri,
-        profileService: ConnectionProfileService
+        profileService: ConnectionProfileService,
+        projectService: MutagenProjectService,
+        storageUri: vscode.Uri,
+        backupService: ConflictBackupService,
+        workspaceState: vscode.Memento,
+        historyService: ConflictHistoryService,
+        historyTreeProvider: ConflictHistoryTreeDataProvider
     ) {
         this.service = MutagenService.getInstance();
         this.treeProvider = treeProvider;
         this.statusBar = statusBar;
         this.extensionUri = extensionUri;
         this.profileService = profileService;
+        this.projectService = projectService;
+        this.backupService = backupService;
+        this.workspaceState = workspaceState;
+        this.historyService = historyService;
+        this.historyTreeProvider = historyTreeProvider;
+        this.handledConflictsBySession = this.loadHandledConflicts();
+        this.mergeRoot = path.join(storageUri.fsPath, 'merge');
     }
 
     registerCommands(context: vscode.ExtensionContext): void {
         context.subscriptions.push(
+            this.remoteDocuments,
+            vscode.workspace.registerTextDocumentContentProvider(RemoteFileContentProvider.scheme, this.remoteDocuments),
+            vscode.workspace.onDidSaveTextDocument(document => {
+                void this.applyConflictMerge(document);
+            }),
+            vscode.workspace.onDidCloseTextDocument(document => {
+                void this.discardConflictMerge(document);
+            }),
+            this.treeProvider.onDidDetectNewConflicts(({ session, conflicts }) => {
+                void this.applyConflictPolicies(session, conflicts);
+            }),
             vscode.commands.registerCommand('mutagen.refresh', () => this.refresh()),
             vscode.commands.registerCommand('mutagen.createSession', () => this.createSession()),
-            vscode.commands.registerCommand('mutagen.pauseSession', (item: SessionTreeItem) => this.pauseSession(item)),
-            vscode.commands.registerCommand('mutagen.resumeSession', (item: SessionTreeItem) => this.resumeSession(item)),
-            vscode.commands.registerCommand('mutagen.terminateSession', (item: SessionTreeItem) => this.terminateSession(item)),
-            vscode.commands.registerCommand('mutagen.flushSession', (item: SessionTreeItem) => this.flushSession(item)),
-            vscode.commands.registerCommand('mutagen.resetSession', (item: SessionTreeItem) => this.resetSession(item)),
+            vscode.commands.registerCommand('mutagen.pauseSession', (item: SessionTreeItem, selected?: SessionTreeItem[]) => this.pauseSession(item, selected)),
+            vscode.commands.registerCommand('mutagen.resumeSession', (item: SessionTreeItem, selected?: SessionTreeItem[]) => this.resumeSession(item, selected)),
+            vscode.commands.registerCommand('mutagen.terminateSession', (item: SessionTreeItem, selected?: SessionTreeItem[]) => this.terminateSession(item, selected)),
+            vscode.commands.registerCommand('mutagen.flushSession', (item: SessionTreeItem, selected?: SessionTreeItem[]) => this.flushSession(item, selected)),
+            vscode.commands.registerCommand('mutagen.resetSession', (item: SessionTreeItem, selected?: SessionTreeItem[]) => this.resetSession(item, selected)),
             vscode.commands.registerCommand('mutagen.showSessionDetails', (item: SessionTreeItem) => this.showSessionDetails(item)),
             vscode.commands.registerCommand('mutagen.openLocalFolder', (item: SessionTreeItem) => this.openLocalFolder(item)),
             vscode.commands.registerCommand('mutagen.connectSessionInCurrentWindow', (item: SessionTreeItem) => this.connectSessionInCurrentWindow(item)),
@@ -103,19 +383,49 @@ export class CommandManager {
             vscode.commands.registerCommand('mutagen.connectSavedSession', () => this.connectSavedSession()),
             vscode.commands.registerCommand('mutagen.manageSavedSessions', () => this.manageSavedSessions()),
             vscode.commands.registerCommand('mutagen.openConflictLocal', (item: SessionTreeItem) => this.openConflictLocal(item)),
+            vscode.commands.registerCommand('mutagen.compareConflict', (item: SessionTreeItem) => this.compareConflict(item)),
+            vscode.commands.registerCommand('mutagen.mergeConflict', (item: SessionTreeItem) => this.mergeConflict(item)),
+            vscode.commands.registerCommand('mutagen.editConflictPolicies', (item: SessionTreeItem) => this.editConflictPolicies(item)),
+            vscode.commands.registerCommand('mutagen.diffConflictBackup', (item: ConflictBackupTreeItem) => this.diffConflictBackup(item)),
+            vscode.commands.registerCommand('mutagen.restoreConflictBackup', (item: ConflictBackupTreeItem) => this.restoreConflictBackup(item)),
+            vscode.commands.registerCommand('mutagen.deleteConflictBackup', (item: ConflictBackupTreeItem) => this.deleteConflictBackup(item)),
+            vscode.commands.registerCommand('mutagen.filterConflictHistory', () => this.filterConflictHistory()),
+            vscode.commands.registerCommand('mutagen.clearConflictHistoryFilter', () => this.historyTreeProvider.setSessionFilter(null)),
+            vscode.commands.registerCommand('mutagen.exportConflictHistory', () => this.exportConflictHistory()),
+            vscode.commands.registerCommand('mutagen.clearConflictHistory', () => this.clearConflictHistory()),
             vscode.commands.registerCommand('mutagen.copyConflictRemotePath', (item: SessionTreeItem) => this.copyConflictRemotePath(item)),
             vscode.commands.registerCommand('mutagen.copyConflictAcceptLocalCommand', (item: SessionTreeItem) => this.copyConflictAcceptCommand(item, 'local')),
             vscode.commands.registerCommand('mutagen.copyConflictAcceptRemoteCommand', (item: SessionTreeItem) => this.copyConflictAcceptCommand(item, 'remote')),
             vscode.commands.registerCommand('mutagen.acceptConflictLocal', (item: SessionTreeItem) => this.acceptConflict(item, 'local')),
             vscode.commands.registerCommand('mutagen.acceptConflictRemote', (item: SessionTreeItem) => this.acceptConflict(item, 'remote')),
             vscode.commands.registerCommand('mutagen.acceptAllConflictsLocal', (item: SessionTreeItem) => this.acceptAllConflicts(item, 'local')),
-            vscode.commands.registerCommand('mutagen.acceptAllConflictsRemote', (item: SessionTreeItem) => this.acceptAllConflicts(item, 'remote'))
+            vscode.commands.registerCommand('mutagen.acceptAllConflictsRemote', (item: SessionTreeItem) => this.acceptAllConflicts(item, 'remote')),
+            vscode.commands.registerCommand('mutagen.keepBothConflict', (item: SessionTreeItem) => this.acceptConflict(item, 'keep-both')),
+            vscode.commands.registerCommand('mutagen.keepBothAllConflicts', (item: SessionTreeItem) => this.acceptAllConflicts(item, 'keep-both')),
+            vscode.commands.registerCommand('mutagen.openProblemLocal', (item: SessionTreeItem) => this.openProblemLocal(item)),
+            vscode.commands.registerCommand('mutagen.copyProblemRemotePath', (item: SessionTreeItem) => this.copyProblemRemotePath(item)),
+            vscode.commands.registerCommand('mutagen.ignoreProblemPath', (item: SessionTreeItem) => this.ignoreProblemPath(item)),
+            vscode.commands.registerCommand('mutagen.createForward', () => this.createForward()),
+            vscode.commands.registerCommand('mutagen.pauseForward', (item: SessionTreeItem) => this.pauseForward(item)),
+            vscode.commands.registerCommand('mutagen.resumeForward', (item: SessionTreeItem) => this.resumeForward(item)),
+            vscode.commands.registerCommand('mutagen.terminateForward', (item: SessionTreeItem) => this.terminateForward(item)),
+            vscode.commands.registerCommand('mutagen.startProject', (item?: SessionTreeItem) => this.runProjectAction(item, 'start')),
+            vscode.commands.registerCommand('mutagen.terminateProject', (item?: SessionTreeItem) => this.runProjectAction(item, 'terminate')),
+            vscode.commands.registerCommand('mutagen.flushProject', (item?: SessionTreeItem) => this.runProjectAction(item, 'flush')),
+            vscode.commands.registerCommand('mutagen.pauseProject', (item?: SessionTreeItem) => this.runProjectAction(item, 'pause')),
+            vscode.commands.registerCommand('mutagen.resumeProject', (item?: SessionTreeItem) => this.runProjectAction(item, 'resume')),
+            vscode.commands.registerCommand('mutagen.pauseSessionsByLabel', () => this.runLabelSelectorCommand('pause')),
+            vscode.commands.registerCommand('mutagen.resumeSessionsByLabel', () => this.runLabelSelectorCommand('resume')),
+            vscode.commands.registerCommand('mutagen.flushSessionsByLabel', () => this.runLabelSelectorCommand('flush')),
+            vscode.commands.registerCommand('mutagen.terminateSessionsByLabel', () => this.runLabelSelectorCommand('terminate')),
+            vscode.commands.registerCommand('mutagen.groupSessions', () => this.groupSessions()),
+            vscode.commands.registerCommand('mutagen.filterSessions', () => this.filterSessions()),
+            vscode.commands.registerCommand('mutagen.clearSessionFilter', () => this.treeProvider.setFilter(null))
         );
     }
 
     async refresh(): Promise<void> {
         await this.treeProvider.loadSessions();
-        this.statusBar.updateStatus(this.treeProvider.getSessions());
         this.pruneHandledConflictRecords();
     }
 
@@ -163,6 +473,18 @@ export class CommandManager {
             return;
         }
 
+        const labelsInput = await vscode.window.showInputBox({
+            prompt: 'Enter labels for this session (comma-separated key=value, optional)',
+            placeHolder: 'team=ml, env=dev',
+            validateInput: value => this.validateLabelsInput(value)
+        });
+
+        if (labelsInput === undefined) {
+            return;
+        }
+
+        const labels = this.parseLabelsInput(labelsInput);
+
         const syncMode = await this.pickSyncMode('Select sync mode', 'two-way-safe');
         if (!syncMode) {
             return;
@@ -185,13 +507,20 @@ export class CommandManager {
             return;
         }
 
+        const advancedOptions = await this.pickAdvancedOptions();
+        if (!advancedOptions) {
+            return;
+        }
+
         const sessionIgnorePaths = this.parseIgnorePatterns(ignorePathsInput);
         const workspaceFolder = getWorkspaceFolderForPath(localPath);
         const globalIgnorePaths = getMergedGlobalIgnorePatterns(workspaceFolder?.uri);
         const effectiveIgnorePaths = mergeIgnorePatterns(sessionIgnorePaths, globalIgnorePaths);
 
         const options: CreateSessionOptions = {
+            ...advancedOptions,
             name: sessionNameInput.trim() || undefined,
+            labels,
             mode: syncMode.value,
             ignoreVcs: ignoreVcsMode.value
         };
@@ -201,8 +530,10 @@ export class CommandManager {
         }
 
         try {
-            this.statusBar.showMessage('Creating session...', 'sync~spin');
-            const createdSessionId = await this.service.createSession(localPath, remotePath, options);
+            const createdSession = await this.runWithProgress(
+                'Creating session...',
+                token => this.service.createSession(localPath, remotePath, options, token)
+            );
 
             await this.maybeSaveConnectionProfile({
                 name: sessionNameInput.trim() || path.basename(localPath),
@@ -211,20 +542,27 @@ export class CommandManager {
                 mode: syncMode.value,
                 ignoreVcs: ignoreVcsMode.value,
                 ignorePaths: sessionIgnorePaths,
+                labels,
+                advancedOptions,
                 workspaceFolder: this.resolveWorkspaceFolderPath(localPath),
-                lastSessionIdentifier: createdSessionId
+                lastSessionIdentifier: createdSession.identifier
             });
 
             vscode.window.showInformationMessage('Sync session created successfully');
             await this.refresh();
         } catch (err) {
             const message = err instanceof Error ? err.message : String(err);
-            vscode.window.showErrorMessage(`Failed to create session: ${message}`);
+            void this.showOperationError('Failed to create session', err);
             Logger.error(`Create session failed: ${message}`);
         }
     }
 
-    async pauseSession(item: SessionTreeItem): Promise<void> {
+    async pauseSession(item: SessionTreeItem, selected?: readonly SessionTreeItem[]): Promise<void> {
+        const targets = this.getSelectedSessions(item, selected);
+        if (targets.length > 1) {
+            return this.runBulkSessionCommand('pause', targets);
+        }
+
         if (!item.session) {
             return;
         }
@@ -234,12 +572,16 @@ export class CommandManager {
             vscode.window.showInformationMessage(`Session "${item.session.name}" paused`);
             await this.refresh();
         } catch (err) {
-            const message = err instanceof Error ? err.message : String(err);
-            vscode.window.showErrorMessage(`Failed to pause session: ${message}`);
+            void this.showOperationError('Failed to pause session', err, () => this.pauseSession(item));
         }
     }
 
-    async resumeSession(item: SessionTreeItem): Promise<void> {
+    async resumeSession(item: SessionTreeItem, selected?: readonly SessionTreeItem[]): Promise<void> {
+        const targets = this.getSelectedSessions(item, selected);
+        if (targets.length > 1) {
+            return this.runBulkSessionCommand('resume', targets);
+        }
+
         if (!item.session) {
             return;
         }
@@ -249,12 +591,16 @@ export class CommandManager {
             vscode.window.showInformationMessage(`Session "${item.session.name}" resumed`);
             await this.refresh();
         } catch (err) {
-            const message = err instanceof Error ? err.message : String(err);
-            vscode.window.showErrorMessage(`Failed to resume session: ${message}`);
+            void this.showOperationError('Failed to resume session', err, () => this.resumeSession(item));
         }
     }
 
-    async terminateSession(item: SessionTreeItem): Promise<void> {
+    async terminateSession(item: SessionTreeItem, selected?: readonly SessionTreeItem[]): Promise<void> {
+        const targets = this.getSelectedSessions(item, selected);
+        if (targets.length > 1) {
+            return this.runBulkSessionCommand('terminate', targets);
+        }
+
         if (!item.session) {
             return;
         }
@@ -275,28 +621,39 @@ export class CommandManager {
             vscode.window.showInformationMessage(`Session "${item.session.name}" terminated`);
             await this.refresh();
         } catch (err) {
-            const message = err instanceof Error ? err.message : String(err);
-            vscode.window.showErrorMessage(`Failed to terminate session: ${message}`);
+            void this.showOperationError('Failed to terminate session', err, () => this.terminateSession(item));
         }
     }
 
-    async flushSession(item: SessionTreeItem): Promise<void> {
+    async flushSession(item: SessionTreeItem, selected?: readonly SessionTreeItem[]): Promise<void> {
+        const targets = this.getSelectedSessions(item, selected);
+        if (targets.length > 1) {
+            return this.runBulkSessionCommand('flush', targets);
+        }
+
         if (!item.session) {
             return;
         }
 
         try {
             this.statusBar.showSyncing(item.session.name);
-            await this.service.flushSession(item.session.identifier);
+            await this.runWithProgress(
+                `Flushing "${item.session.name}"...`,
+                token => this.service.flushSession(item.session!.identifier, token)
+            );
             vscode.window.showInformationMessage(`Session "${item.session.name}" flushed`);
             await this.refresh();
         } catch (err) {
-            const message = err instanceof Error ? err.message : String(err);
-            vscode.window.showErrorMessage(`Failed to flush session: ${message}`);
+            void this.showOperationError('Failed to flush session', err, () => this.flushSession(item));
         }
     }
 
-    async resetSession(item: SessionTreeItem): Promise<void> {
+    async resetSession(item: SessionTreeItem, selected?: readonly SessionTreeItem[]): Promise<void> {
+        const targets = this.getSelectedSessions(item, selected);
+        if (targets.length > 1) {
+            return this.runBulkSessionCommand('reset', targets);
+        }
+
         if (!item.session) {
             return;
         }
@@ -312,206 +669,1520 @@ export class CommandManager {
         }
 
         try {
-            await this.service.resetSession(item.session.identifier);
+            await this.runWithProgress(
+                `Resetting "${item.session.name}"...`,
+                token => this.service.resetSession(item.session!.identifier, token)
+            );
             this.clearHandledConflicts(item.session.identifier);
             vscode.window.showInformationMessage(`Session "${item.session.name}" history reset`);
             await this.refresh();
         } catch (err) {
-            const message = err instanceof Error ? err.message : String(err);
-            vscode.window.showErrorMessage(`Failed to reset session: ${message}`);
+            void this.showOperationError('Failed to reset session', err, () => this.resetSession(item));
         }
     }
 
-    async showSessionDetails(item: SessionTreeItem): Promise<void> {
-        if (!item.session) {
+    private getSelectedSessions(item: SessionTreeItem, selected?: readonly SessionTreeItem[]): MutagenSession[] {
+        // VS Code passes the whole selection only when the invoked item is part of it
+        const items = selected?.includes(item) ? selected : [item];
+        const sessions = new Map<string, MutagenSession>();
+        for (const candidate of items) {
+            if (candidate.itemType === 'session' && candidate.session) {
+                sessions.set(candidate.session.identifier, candidate.session);
+            }
+        }
+        return Array.from(sessions.values());
+    }
+
+    private async runBulkSessionCommand(command: BulkSessionCommand, sessions: MutagenSession[]): Promise<void> {
+        const labels = BULK_SESSION_COMMAND_LABELS[command];
+        const names = sessions.map(session => session.name || session.identifier);
+        const warning = command === 'terminate'
+            ? '\n\nTerminated sessions cannot be restored.'
+            : command === 'reset'
+                ? '\n\nSync history will be cleared and every session re-scanned.'
+                : '';
+
+        const confirm = await vscode.window.showWarningMessage(
+            `${labels.action} ${sessions.length} selected session(s)?`,
+            { modal: true, detail: `${names.join('\n')}${warning}` },
+            labels.action
+        );
+
+        if (confirm !== labels.action) {
             return;
         }
 
-        SessionDetailsPanel.show(this.extensionUri, item.session);
-    }
+        let successCount = 0;
+        let skippedCount = 0;
+        const failed: string[] = [];
 
-    async openLocalFolder(item: SessionTreeItem): Promise<void> {
-        if (!item.session) {
+        await this.runWithProgress(
+            `${labels.action} ${sessions.length} session(s)...`,
+            token => runWithConcurrency(sessions, BULK_SESSION_CONCURRENCY, async session => {
+                const name = session.name || session.identifier;
+                if (token.isCancellationRequested) {
+                    skippedCount += 1;
+                    return;
+                }
+
+                try {
+                    await this.runSessionCommand(command, session.identifier, token);
+                    if (command === 'terminate' || command === 'reset') {
+                        this.clearHandledConflicts(session.identifier);
+                    }
+                    successCount += 1;
+                } catch (err) {
+                    if (err instanceof CommandCancelledError) {
+                        skippedCount += 1;
+                        return;
+                    }
+
+                    const message = err instanceof MutagenError ? err.summary : err instanceof Error ? err.message : String(err);
+                    failed.push(`${name}: ${message}`);
+                    Logger.error(`Bulk ${command} failed for session ${session.identifier}: ${message}`);
+                }
+            })
+        );
+
+        await this.refresh();
+
+        const summary = `Total: ${sessions.length}, ${labels.done}: ${successCount}, failed: ${failed.length}`
+            + (skippedCount > 0 ? `, cancelled: ${skippedCount}` : '');
+
+        if (failed.length === 0) {
+            vscode.window.showInformationMessage(summary);
             return;
         }
 
-        await this.openSessionProject(item.session, false);
+        const detail = failed.slice(0, 3).join(' | ');
+        vscode.window.showWarningMessage(`${summary}. Failed items: ${detail}`);
     }
 
-    async openConflictLocal(item: SessionTreeItem): Promise<void> {
-        const conflictData = this.getConflictDataFromItem(item);
-        if (!conflictData) {
-            return;
+    private runSessionCommand(
+        command: BulkSessionCommand,
+        identifier: string,
+        token: vscode.CancellationToken
+    ): Promise<void> {
+        switch (command) {
+            case 'pause':
+                return this.service.pauseSession(identifier, token);
+            case 'resume':
+                return this.service.resumeSession(identifier, token);
+            case 'flush':
+                return this.service.flushSession(identifier, token);
+            case 'reset':
+                return this.service.resetSession(identifier, token);
+            case 'terminate':
+                return this.service.terminateSession(identifier, token);
         }
+    }
 
-        try {
-            const endpoints = this.getConflictEndpoints(conflictData.session);
-            if (!endpoints) {
-                vscode.window.showErrorMessage('Unable to locate local endpoint for this conflict');
-                return;
+    async createForward(): Promise<void> {
+        const sourceInput = await vscode.window.showInputBox({
+            prompt: 'Enter local listener (e.g., tcp:localhost:8888)',
+            placeHolder: 'tcp:localhost:8888',
+            validateInput: value => {
+                if (!value.trim()) {
+                    return 'Source is required';
+                }
+                return null;
             }
+        });
 
-            const localPath = this.resolveLocalConflictPath(endpoints.localEndpoint.path, conflictData.conflict.root);
-            const state = await this.getLocalPathState(localPath);
-            if (state === 'missing') {
-                vscode.window.showWarningMessage(`Local path does not exist: ${localPath}`);
-                return;
-            }
+        if (sourceInput === undefined) {
+            return;
+        }
 
-            if (state === 'directory') {
-                await vscode.commands.executeCommand('revealInExplorer', vscode.Uri.file(localPath));
-                return;
+        const destinationInput = await vscode.window.showInputBox({
+            prompt: 'Enter forwarding target (e.g., host:tcp:localhost:8888 or user@host:tcp:localhost:8888, default user: root)',
+            placeHolder: 'hostname:tcp:localhost:8888',
+            validateInput: value => {
+                if (!value.trim()) {
+                    return 'Destination is required';
+                }
+                return null;
             }
+        });
 
-            const doc = await vscode.workspace.openTextDocument(vscode.Uri.file(localPath));
-            await vscode.window.showTextDocument(doc, { preview: false });
+        if (destinationInput === undefined) {
+            return;
+        }
+
+        const forwardNameInput = await vscode.window.showInputBox({
+            prompt: 'Enter a name for this forwarding session (optional)',
+            placeHolder: 'jupyter'
+        });
+
+        if (forwardNameInput === undefined) {
+            return;
+        }
+
+        const source = sourceInput.trim();
+        const destination = this.normalizeForwardDestination(destinationInput.trim());
+
+        try {
+            this.statusBar.showMessage('Creating forward...', 'sync~spin');
+            await this.service.createForwardSession(source, destination, {
+                name: forwardNameInput.trim() || undefined
+            });
+            vscode.window.showInformationMessage(`Forwarding ${source} → ${destination}`);
+            await this.refresh();
         } catch (err) {
             const message = err instanceof Error ? err.message : String(err);
-            vscode.window.showErrorMessage(`Failed to open local conflict path: ${message}`);
+            void this.showOperationError('Failed to create forward', err);
+            Logger.error(`Create forward failed: ${message}`);
         }
     }
 
-    async copyConflictRemotePath(item: SessionTreeItem): Promise<void> {
-        const conflictData = this.getConflictDataFromItem(item);
-        if (!conflictData) {
+    async pauseForward(item: SessionTreeItem): Promise<void> {
+        if (!item.forward) {
             return;
         }
 
         try {
-            const remotePath = this.getConflictRemotePathDisplay(conflictData.session, conflictData.conflict.root);
-            await vscode.env.clipboard.writeText(remotePath);
-            vscode.window.showInformationMessage(`Copied remote conflict path: ${remotePath}`);
+            await this.service.pauseForwardSession(item.forward.identifier);
+            vscode.window.showInformationMessage(`Forward "${item.label}" paused`);
+            await this.refresh();
         } catch (err) {
-            const message = err instanceof Error ? err.message : String(err);
-            vscode.window.showErrorMessage(`Failed to copy remote path: ${message}`);
+            void this.showOperationError('Failed to pause forward', err, () => this.pauseForward(item));
         }
     }
 
-    async copyConflictAcceptCommand(item: SessionTreeItem, direction: ConflictDirection): Promise<void> {
-        const conflictData = this.getConflictDataFromItem(item);
-        if (!conflictData) {
+    async resumeForward(item: SessionTreeItem): Promise<void> {
+        if (!item.forward) {
             return;
         }
 
         try {
-            const command = this.buildConflictAcceptCommand(conflictData.session, conflictData.conflict, direction);
-            await vscode.env.clipboard.writeText(command);
-            vscode.window.showInformationMessage(
-                `Copied ${direction === 'local' ? 'accept-local' : 'accept-remote'} command`
-            );
+            await this.service.resumeForwardSession(item.forward.identifier);
+            vscode.window.showInformationMessage(`Forward "${item.label}" resumed`);
+            await this.refresh();
         } catch (err) {
-            const message = err instanceof Error ? err.message : String(err);
-            vscode.window.showErrorMessage(`Failed to copy command: ${message}`);
+            void this.showOperationError('Failed to resume forward', err, () => this.resumeForward(item));
         }
     }
 
-    async acceptConflict(item: SessionTreeItem, direction: ConflictDirection): Promise<void> {
-        const conflictData = this.getConflictDataFromItem(item);
-        if (!conflictData) {
+    async terminateForward(item: SessionTreeItem): Promise<void> {
+        if (!item.forward) {
+            return;
+        }
+
+        const confirm = await vscode.window.showWarningMessage(
+            `Are you sure you want to terminate forward "${item.label}"?`,
+            { modal: true },
+            'Terminate'
+        );
+
+        if (confirm !== 'Terminate') {
             return;
         }
 
         try {
-            const session = await this.service.getSession(conflictData.session.identifier);
-            if (!session) {
-                vscode.window.showErrorMessage('Session not found. Try refreshing and retrying.');
+            await this.service.terminateForwardSession(item.forward.identifier);
+            vscode.window.showInformationMessage(`Forward "${item.label}" terminated`);
+            await this.refresh();
+        } catch (err) {
+            void this.showOperationError('Failed to terminate forward', err, () => this.terminateForward(item));
+        }
+    }
+
+    async runProjectAction(item: SessionTreeItem | undefined, action: ProjectAction): Promise<void> {
+        const project = item?.project ?? await this.pickProject(`Select a Mutagen project to ${action}`);
+        if (!project) {
+            return;
+        }
+
+        if (action === 'terminate') {
+            const confirm = await vscode.window.showWarningMessage(
+                `Terminate all sessions of project "${project.name}"?`,
+                { modal: true },
+                'Terminate'
+            );
+
+            if (confirm !== 'Terminate') {
                 return;
             }
+        }
 
-            const latestConflict = this.findConflictInSession(session, conflictData.conflict);
-            if (!latestConflict) {
-                await this.refresh();
-                vscode.window.showInformationMessage(`Conflict "${conflictData.conflict.root}" is already resolved`);
-                return;
+        try {
+            if (action === 'start') {
+                this.statusBar.showMessage(`Starting ${project.name}...`, 'sync~spin');
+            } else if (action === 'flush') {
+                this.statusBar.showSyncing(project.name);
             }
 
-            await this.applyConflictDirection(session, latestConflict, direction);
-            this.markConflictHandled(session.identifier, latestConflict, direction);
+            await this.runWithProgress(
+                `Running project ${action} for "${project.name}"...`,
+                token => {
+                    switch (action) {
+                        case 'start':
+                            return this.service.startProject(project.projectFile, token);
+                        case 'terminate':
+                            return this.service.terminateProject(project.projectFile, token);
+                        case 'flush':
+                            return this.service.flushProject(project.projectFile, token);
+                        case 'pause':
+                            return this.service.pauseProject(project.projectFile, token);
+                        case 'resume':
+                            return this.service.resumeProject(project.projectFile, token);
+                    }
+                }
+            );
 
+            vscode.window.showInformationMessage(`Project "${project.name}": ${action} completed`);
             await this.refresh();
-            vscode.window.showInformationMessage(
-                `Accepted ${direction === 'local' ? 'local' : 'remote'} version for "${latestConflict.root}"`
-            );
         } catch (err) {
             const message = err instanceof Error ? err.message : String(err);
-            vscode.window.showErrorMessage(`Failed to accept conflict: ${message}`);
+            void this.showOperationError(`Failed to ${action} project`, err, () => this.runProjectAction(item, action));
+            Logger.error(`Project ${action} failed for ${project.projectFile}: ${message}`);
         }
     }
 
-    async acceptAllConflicts(item: SessionTreeItem, direction: ConflictDirection): Promise<void> {
-        if (!item.session) {
+    async groupSessions(): Promise<void> {
+        const current = this.treeProvider.getGrouping();
+        const items: GroupingQuickPickItem[] = [
+            { label: 'None', value: 'none', description: 'Flat list in Mutagen order' },
+            { label: 'Remote Host', value: 'host', description: 'One group per remote host or container' },
+            { label: 'Label Value', value: 'label', description: 'Group by the value of a chosen label key' },
+            { label: 'Workspace', value: 'workspace', description: 'Current workspace vs other workspaces' },
+            { label: 'Status', value: 'status', description: 'Watching, syncing, paused, disconnected, needs attention' }
+        ];
+        const active = items.find(item => item.value === current.mode);
+        if (active) {
+            active.description = `${active.description} (current)`;
+        }
+
+        const selected = await vscode.window.showQuickPick(items, {
+            placeHolder: 'Group sync sessions by',
+            ...(active ? { activeItem: active } : {})
+        });
+
+        if (!selected) {
             return;
         }
 
-        try {
-            const session = await this.service.getSession(item.session.identifier);
-            if (!session) {
-                vscode.window.showErrorMessage('Session not found. Try refreshing and retrying.');
-                return;
+        if (selected.value !== 'label') {
+            await this.treeProvider.setGrouping(selected.value);
+            return;
+        }
+
+        const labelKeys = new Set<string>();
+        for (const session of this.treeProvider.getSessions()) {
+            for (const key of Object.keys(getUserLabels(session.labels))) {
+                labelKeys.add(key);
             }
+        }
 
-            const conflicts = session.conflicts ?? [];
-            if (conflicts.length === 0) {
-                this.clearHandledConflicts(session.identifier);
-                await this.refresh();
-                vscode.window.showInformationMessage('No conflicts to process');
+        if (labelKeys.size === 0) {
+            vscode.window.showInformationMessage('No sessions have labels to group by');
+            return;
+        }
+
+        const labelKey = await vscode.window.showQuickPick(Array.from(labelKeys).sort(), {
+            placeHolder: 'Select the label key to group by'
+        });
+
+        if (labelKey) {
+            await this.treeProvider.setGrouping('label', labelKey);
+        }
+    }
+
+    async filterSessions(): Promise<void> {
+        const current = this.treeProvider.getFilter();
+        const items: FilterQuickPickItem[] = [
+            { label: '$(search) Search...', value: 'text', description: 'Match name, host, path, label or status' },
+            { label: '$(error) Only Errors', value: 'errors', description: 'Sessions with errors or scan/transition problems' },
+            { label: '$(warning) Only Conflicts', value: 'conflicts', description: 'Sessions with unresolved conflicts' },
+            { label: '$(debug-pause) Only Paused', value: 'paused' },
+            { label: '$(play) Only Active', value: 'active' }
+        ];
+        if (current) {
+            items.push({ label: '$(clear-all) Clear Filter', value: 'clear', description: this.treeProvider.describeFilter() });
+        }
+
+        const selected = await vscode.window.showQuickPick(items, { placeHolder: 'Filter sync sessions' });
+        if (!selected) {
+            return;
+        }
+
+        if (selected.value === 'clear') {
+            this.treeProvider.setFilter(null);
+            return;
+        }
+
+        if (selected.value !== 'text') {
+            // Presets combine with an existing text search
+            this.treeProvider.setFilter({ preset: selected.value, text: current?.text });
+            return;
+        }
+
+        const text = await vscode.window.showInputBox({
+            prompt: 'Filter sessions by name, host, path, label or status',
+            placeHolder: 'gpu-01, team=ml, watching',
+            value: current?.text ?? ''
+        });
+
+        if (text !== undefined) {
+            this.treeProvider.setFilter({ preset: current?.preset, text });
+        }
+    }
+
+    async runLabelSelectorCommand(command: LabelSelectorCommand): Promise<void> {
+        const selector = await this.pickLabelSelector(`Select sessions to ${command} by label`);
+        if (!selector) {
+            return;
+        }
+
+        try {
+            const matched = await this.service.listSessionsByLabelSelector(selector);
+            if (matched.length === 0) {
+                vscode.window.showInformationMessage(`No sessions match label selector "${selector}"`);
                 return;
             }
 
-            const exclusion = this.splitHandledConflicts(session.identifier, conflicts);
-            if (exclusion.pending.length === 0) {
-                vscode.window.showInformationMessage(
-                    `No pending conflicts. Total: ${conflicts.length}, skipped handled: ${exclusion.excludedCount}.`
+            const names = matched.map(session => session.name || session.identifier);
+            if (command === 'terminate') {
+                const confirm = await vscode.window.showWarningMessage(
+                    `Terminate ${matched.length} session(s) matching "${selector}"?`,
+                    { modal: true, detail: names.join('\n') },
+                    'Terminate'
                 );
-                return;
-            }
 
-            const confirm = await vscode.window.showWarningMessage(
-                `Accept ${direction === 'local' ? 'local' : 'remote'} version for ${exclusion.pending.length} conflict(s)? `
-                    + `Handled conflicts with unchanged versions will be skipped (${exclusion.excludedCount}).`,
-                { modal: true },
-                'Accept All'
+                if (confirm !== 'Terminate') {
+                    return;
+                }
+            }
+
+            await this.runWithProgress(
+                `Running ${command} on ${matched.length} session(s) matching "${selector}"...`,
+                token => this.service.runSessionCommandByLabel(command, selector, token)
+            );
+            if (command === 'terminate') {
+                for (const session of matched) {
+                    this.clearHandledConflicts(session.identifier);
+                }
+            }
+            vscode.window.showInformationMessage(
+                `Sessions matching "${selector}": ${command} completed (${names.join(', ')})`
+            );
+            await this.refresh();
+        } catch (err) {
+            void this.showOperationError(
+                `Failed to ${command} sessions by label`,
+                err,
+                () => this.runLabelSelectorCommand(command)
+            );
+        }
+    }
+
+    private async pickLabelSelector(placeHolder: string): Promise<string | undefined> {
+        // Offer every key=value pair currently in use, most common first
+        const counts = new Map<string, number>();
+        for (const session of this.treeProvider.getSessions()) {
+            for (const [key, value] of Object.entries(getUserLabels(session.labels))) {
+                const selector = value ? `${key}=${value}` : key;
+                counts.set(selector, (counts.get(selector) ?? 0) + 1);
+            }
+        }
+
+        const items: LabelSelectorQuickPickItem[] = Array.from(counts)
+            .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+            .map(([selector, count]) => ({
+                label: `$(tag) ${selector}`,
+                description: `${count} session(s)`,
+                selector
+            }));
+        items.push({
+            label: '$(edit) Enter Label Selector...',
+            description: 'e.g. team=ml, env!=prod or env in (dev,staging)',
+            selector: undefined
+        });
+
+        const selected = await vscode.window.showQuickPick(items, { placeHolder, ignoreFocusOut: true });
+        if (!selected) {
+            return undefined;
+        }
+
+        if (selected.selector) {
+            return selected.selector;
+        }
+
+        const input = await vscode.window.showInputBox({
+            prompt: 'Mutagen label selector',
+            placeHolder: 'team=ml',
+            ignoreFocusOut: true,
+            validateInput: value => value.trim() ? null : 'Label selector is required'
+        });
+
+        return input?.trim() || undefined;
+    }
+
+    async showSessionDetails(item: SessionTreeItem): Promise<void> {
+        if (!item.session) {
+            return;
+        }
+
+        SessionDetailsPanel.show(this.extensionUri, item.session);
+    }
+
+    async openLocalFolder(item: SessionTreeItem): Promise<void> {
+        if (!item.session) {
+            return;
+        }
+
+        await this.openSessionProject(item.session, false);
+    }
+
+    async openConflictLocal(item: SessionTreeItem): Promise<void> {
+        const conflictData = this.getConflictDataFromItem(item);
+        if (!conflictData) {
+            return;
+        }
+
+        try {
+            await this.openLocalSessionPath(conflictData.session, conflictData.conflict.root);
+        } catch (err) {
+            const message = err instanceof Error ? err.message : String(err);
+            vscode.window.showErrorMessage(`Failed to open local conflict path: ${message}`);
+        }
+    }
+
+    async compareConflict(item: SessionTreeItem): Promise<void> {
+        const conflictData = this.getConflictDataFromItem(item);
+        if (!conflictData) {
+            return;
+        }
+
+        const { session, conflict } = conflictData;
+
+        try {
+            const endpoints = this.getConflictEndpoints(session);
+            if (!endpoints) {
+                throw new Error('Unable to find a local endpoint for this session');
+            }
+
+            const localPath = this.resolveLocalConflictPath(endpoints.localEndpoint.path, conflict.root);
+            const remotePath = this.resolveEndpointConflictPath(endpoints.remoteEndpoint, conflict.root);
+
+            const localState = await this.getLocalPathState(localPath);
+            if (localState === 'directory') {
+                throw new Error('Compare is only available for files. Open the local folder instead');
+            }
+
+            const remoteContent = await vscode.window.withProgress(
+                {
+                    location: vscode.ProgressLocation.Notification,
+                    title: `Fetching remote version of ${conflict.root}...`
+                },
+                () => this.readEndpointFile(endpoints.remoteEndpoint, remotePath)
+            );
+
+            const remoteUri = this.remoteDocuments.createUri(session.identifier, 'remote', conflict.root);
+            this.remoteDocuments.setContent(remoteUri, remoteContent ?? '');
+
+            let localUri = vscode.Uri.file(localPath);
+            if (localState === 'missing') {
+                // A deletion on one side compares against an empty document
+                localUri = this.remoteDocuments.createUri(session.identifier, 'local', conflict.root);
+                this.remoteDocuments.setContent(localUri, '');
+            }
+
+            const localLabel = localState === 'missing' ? 'Local, deleted' : 'Local';
+            const remoteLabel = remoteContent === null ? 'Remote, deleted' : 'Remote';
+            await vscode.commands.executeCommand(
+                'vscode.diff',
+                localUri,
+                remoteUri,
+                `${path.basename(localPath)} (${localLabel} ↔ ${remoteLabel})`
+            );
+        } catch (err) {
+            void this.showOperationError('Failed to compare conflict', err, () => this.compareConflict(item));
+        }
+    }
+
+    async mergeConflict(item: SessionTreeItem): Promise<void> {
+        const conflictData = this.getConflictDataFromItem(item);
+        if (!conflictData) {
+            return;
+        }
+
+        const { session, conflict } = conflictData;
+
+        try {
+            const endpoints = this.getConflictEndpoints(session);
+            if (!endpoints) {
+                throw new Error('Unable to find a local endpoint for this session');
+            }
+
+            const localPath = this.resolveLocalConflictPath(endpoints.localEndpoint.path, conflict.root);
+            const remotePath = this.resolveEndpointConflictPath(endpoints.remoteEndpoint, conflict.root);
+
+            const [localContent, remoteContent] = await vscode.window.withProgress(
+                {
+                    location: vscode.ProgressLocation.Notification,
+                    title: `Fetching both versions of ${conflict.root}...`
+                },
+                () => Promise.all([
+                    this.readEndpointFile(endpoints.localEndpoint, localPath),
+                    this.readEndpointFile(endpoints.remoteEndpoint, remotePath)
+                ])
+            );
+
+            if (localContent === null && remoteContent === null) {
+                vscode.window.showInformationMessage(`"${conflict.root}" no longer exists on either endpoint`);
+                return;
+            }
+
+            if (isProbablyBinary(localContent ?? '') || isProbablyBinary(remoteContent ?? '')) {
+                vscode.window.showWarningMessage(
+                    `"${conflict.root}" looks like a binary file. Use Accept Local or Accept Remote instead.`
+                );
+                return;
+            }
+
+            const seed = buildConflictMarkedText(localContent ?? '', remoteContent ?? '', {
+                current: 'Local',
+                incoming: `Remote (${this.getConflictRemotePathDisplay(session, conflict.root)})`
+            });
+
+            // Keep the original file name so the editor picks the right language mode
+            const mergeDirectory = path.join(this.mergeRoot, session.identifier, Date.now().toString(36));
+            const mergePath = path.join(mergeDirectory, path.basename(localPath));
+            await fs.mkdir(mergeDirectory, { recursive: true });
+            await fs.writeFile(mergePath, seed.text, 'utf8');
+
+            this.mergeContexts.set(mergePath, {
+                sessionIdentifier: session.identifier,
+                conflict,
+                localPath,
+                remoteEndpoint: endpoints.remoteEndpoint,
+                remotePath
+            });
+
+            await vscode.window.showTextDocument(vscode.Uri.file(mergePath), { preview: false });
+            vscode.window.showInformationMessage(
+                seed.conflictCount > 0
+                    ? `Resolve ${seed.conflictCount} conflict block(s), then save to write the result to both endpoints.`
+                    : 'Both versions are identical. Save to write the result to both endpoints.'
+            );
+        } catch (err) {
+            void this.showOperationError('Failed to start merge', err, () => this.mergeConflict(item));
+        }
+    }
+
+    private async applyConflictMerge(document: vscode.TextDocument): Promise<void> {
+        const mergeContext = this.mergeContexts.get(document.uri.fsPath);
+        if (!mergeContext) {
+            return;
+        }
+
+        const mergedText = document.getText();
+        if (hasConflictMarkers(mergedText)) {
+            vscode.window.showWarningMessage(
+                'The merged result still contains conflict markers. Resolve them and save again to apply it.'
+            );
+            return;
+        }
+
+        const { conflict } = mergeContext;
+
+        try {
+            const session = await this.service.getSession(mergeContext.sessionIdentifier);
+            if (!session) {
+                vscode.window.showErrorMessage('Session not found. Try refreshing and retrying.');
+                return;
+            }
+
+            const latestConflict = this.findConflictInSession(session, conflict);
+            if (!latestConflict) {
+                this.mergeContexts.delete(document.uri.fsPath);
+                await this.refresh();
+                vscode.window.showInformationMessage(
+                    `Conflict "${conflict.root}" is already resolved. The merged result was not applied.`
+                );
+                return;
+            }
+
+            try {
+                await vscode.window.withProgress(
+                    {
+                        location: vscode.ProgressLocation.Notification,
+                        title: `Applying merged result for ${conflict.root}...`
+                    },
+                    async () => {
+                        await this.backupConflictSide(session, conflict.root, 'local', { protocol: 'local' }, mergeContext.localPath);
+                        await this.backupConflictSide(
+                            session,
+                            conflict.root,
+                            'remote',
+                            mergeContext.remoteEndpoint,
+                            mergeContext.remotePath
+                        );
+                        await fs.mkdir(path.dirname(mergeContext.localPath), { recursive: true });
+                        await fs.writeFile(mergeContext.localPath, mergedText, 'utf8');
+                        await this.applyLocalToEndpoint(mergeContext.localPath, mergeContext.remoteEndpoint, mergeContext.remotePath);
+                    }
+                );
+            } catch (err) {
+                await this.recordConflictHistory(session, conflict.root, 'merge', 'merge', err);
+                throw err;
+            }
+
+            this.markConflictHandled(session.identifier, latestConflict, 'merge');
+            await this.recordConflictHistory(session, conflict.root, 'merge', 'merge');
+            this.mergeContexts.delete(document.uri.fsPath);
+
+            await this.refresh();
+            vscode.window.showInformationMessage(`Merged result written to both endpoints for "${conflict.root}"`);
+        } catch (err) {
+            void this.showOperationError('Failed to apply merged result', err);
+        }
+    }
+
+    private async discardConflictMerge(document: vscode.TextDocument): Promise<void> {
+        const mergePath = document.uri.fsPath;
+        if (document.uri.scheme !== 'file' || !this.isSubPath(this.mergeRoot, mergePath)) {
+            return;
+        }
+
+        this.mergeContexts.delete(mergePath);
+        try {
+            await fs.rm(path.dirname(mergePath), { recursive: true, force: true });
+        } catch (err) {
+            const message = err instanceof Error ? err.message : String(err);
+            Logger.warn(`Failed to remove merge file ${mergePath}: ${message}`);
+        }
+    }
+
+    async editConflictPolicies(item: SessionTreeItem): Promise<void> {
+        if (!item.session) {
+            return;
+        }
+
+        const profile = this.findProfileForSession(item.session);
+        if (!profile) {
+            const action = await vscode.window.showInformationMessage(
+                'This session has no saved connection profile. Use the mutagen.conflictPolicies setting instead, '
+                    + 'or save a profile by editing the session with mutagen.autoSaveConnectionProfiles enabled.',
+                'Open Setting'
+            );
+            if (action === 'Open Setting') {
+                await vscode.commands.executeCommand('workbench.action.openSettings', 'mutagen.conflictPolicies');
+            }
+            return;
+        }
+
+        const policies = [...(profile.conflictPolicies ?? [])];
+
+        while (true) {
+            const items: ConflictPolicyQuickPickItem[] = [
+                ...policies.map((policy, index) => ({
+                    label: policy.pattern,
+                    description: CONFLICT_POLICY_STRATEGY_LABELS[policy.strategy].label,
+                    value: index
+                })),
+                { label: '$(add) Add Policy...', value: 'add' as const },
+                {
+                    label: '$(settings-gear) Open Global Policies',
+                    description: 'mutagen.conflictPolicies, applied after profile policies',
+                    value: 'settings' as const
+                },
+                { label: '$(check) Done', value: 'done' as const }
+            ];
+
+            const selected = await vscode.window.showQuickPick(items, {
+                placeHolder: `Conflict policies for "${profile.name}" (first matching pattern wins)`,
+                ignoreFocusOut: true
+            });
+
+            if (!selected || selected.value === 'done') {
+                return;
+            }
+
+            if (selected.value === 'settings') {
+                await vscode.commands.executeCommand('workbench.action.openSettings', 'mutagen.conflictPolicies');
+                return;
+            }
+
+            if (selected.value === 'add') {
+                const pattern = await vscode.window.showInputBox({
+                    prompt: 'Pattern matched against the conflict path, e.g. *.lock, dist/**, *.ipynb',
+                    ignoreFocusOut: true,
+                    validateInput: value => value.trim() ? null : 'Pattern is required'
+                });
+                if (!pattern) {
+                    continue;
+                }
+
+                const strategy = await this.pickConflictStrategy(pattern.trim(), false);
+                if (strategy && strategy !== 'remove') {
+                    policies.push({ pattern: pattern.trim(), strategy });
+                }
+            } else {
+                const policy = policies[selected.value];
+                const strategy = await this.pickConflictStrategy(policy.pattern, true);
+                if (strategy === 'remove') {
+                    policies.splice(selected.value, 1);
+                } else if (strategy) {
+                    policies[selected.value] = { ...policy, strategy };
+                }
+            }
+
+            await this.profileService.updateConflictPolicies(profile.id, policies);
+            Logger.info(`Updated conflict policies for profile "${profile.name}": ${policies.length} rule(s)`);
+        }
+    }
+
+    private async pickConflictStrategy(
+        pattern: string,
+        allowRemove: boolean
+    ): Promise<ConflictStrategyQuickPickItem['value'] | undefined> {
+        const items: ConflictStrategyQuickPickItem[] = CONFLICT_POLICY_STRATEGIES.map(strategy => ({
+            ...CONFLICT_POLICY_STRATEGY_LABELS[strategy],
+            value: strategy
+        }));
+        if (allowRemove) {
+            items.push({ label: '$(trash) Remove Policy', description: '', value: 'remove' });
+        }
+
+        const selected = await vscode.window.showQuickPick(items, {
+            placeHolder: `How should conflicts matching "${pattern}" be resolved?`,
+            ignoreFocusOut: true
+        });
+        return selected?.value;
+    }
+
+    private findProfileForSession(session: MutagenSession): ConnectionProfile | undefined {
+        const profiles = this.profileService.listProfiles();
+        return profiles.find(profile => profile.lastSessionIdentifier === session.identifier)
+            ?? profiles.find(profile => this.service.sessionMatchesEndpoints(session, profile.localPath, profile.remotePath));
+    }
+
+    private getConflictPoliciesForSession(session: MutagenSession): ConflictPolicy[] {
+        return [
+            ...(this.findProfileForSession(session)?.conflictPolicies ?? []),
+            ...getConflictPolicies()
+        ];
+    }
+
+    /**
+     * Resolves newly reported conflicts that match a profile or settings policy.
+     * Failures are logged and left in the tree for manual handling.
+     */
+    private async applyConflictPolicies(session: MutagenSession, conflicts: Conflict[]): Promise<void> {
+        if (this.resolvingSessions.has(session.identifier)) {
+            // The tree already counts these conflicts as known, so re-check the session once the run ends
+            Logger.debug(`Deferring conflict policies for ${session.identifier} until the running resolution finishes`);
+            this.deferredPolicySessions.add(session.identifier);
+            return;
+        }
+
+        const policies = this.getConflictPoliciesForSession(session);
+        if (policies.length === 0) {
+            return;
+        }
+
+        const matches = this.splitHandledConflicts(session.identifier, conflicts).pending
+            .map(conflict => ({ conflict, policy: policies.find(policy => matchesPathPattern(conflict.root, policy.pattern)) }))
+            .filter((match): match is { conflict: Conflict; policy: ConflictPolicy } => !!match.policy);
+        if (matches.length === 0) {
+            return;
+        }
+
+        const sessionName = toSessionSummary(session).name;
+        let resolvedCount = 0;
+        let failedCount = 0;
+
+        await this.runExclusiveResolution(session.identifier, async () => {
+            for (const { conflict, policy } of matches) {
+                const rule = `"${policy.pattern}" (${policy.strategy})`;
+                try {
+                    const resolution = await this.resolveConflictWithStrategy(session, conflict, policy.strategy);
+                    this.markConflictHandled(session.identifier, conflict, resolution);
+                    await this.recordConflictHistory(session, conflict.root, resolution, 'policy');
+                    resolvedCount += 1;
+                    Logger.info(`Conflict policy ${rule} resolved ${conflict.root} in "${sessionName}": ${resolution}`);
+                } catch (err) {
+                    const message = err instanceof Error ? err.message : String(err);
+                    Logger.error(`Conflict policy ${rule} failed for ${conflict.root} in "${sessionName}": ${message}`);
+                    await this.recordConflictHistory(session, conflict.root, policy.strategy, 'policy', err);
+                    failedCount += 1;
+                }
+            }
+
+            // Same convergence rule as Accept All: only when every matched conflict was resolved
+            if (resolvedCount > 0 && failedCount === 0) {
+                const convergenceError = await this.convergeResolvedSession(session.identifier);
+                if (convergenceError) {
+                    Logger.warn(`Auto reset+flush failed for "${sessionName}" after applying conflict policies: ${convergenceError}`);
+                }
+            }
+        });
+
+        if (resolvedCount > 0) {
+            vscode.window.setStatusBarMessage(
+                `$(check) Mutagen: auto-resolved ${resolvedCount} conflict(s) in "${sessionName}"`,
+                5000
+            );
+            await this.refresh();
+        }
+    }
+
+    /**
+     * Marks the session busy while `task` writes to its endpoints, then applies
+     * policies to any conflicts that were reported in the meantime.
+     */
+    private async runExclusiveResolution<T>(sessionIdentifier: string, task: () => Promise<T>): Promise<T> {
+        this.resolvingSessions.add(sessionIdentifier);
+        try {
+            return await task();
+        } finally {
+            this.resolvingSessions.delete(sessionIdentifier);
+            if (this.deferredPolicySessions.delete(sessionIdentifier)) {
+                void this.reapplyConflictPolicies(sessionIdentifier);
+            }
+        }
+    }
+
+    private async reapplyConflictPolicies(sessionIdentifier: string): Promise<void> {
+        try {
+            const session = await this.service.getSession(sessionIdentifier);
+            if (session?.conflicts?.length) {
+                await this.applyConflictPolicies(session, session.conflicts);
+            }
+        } catch (err) {
+            const message = err instanceof Error ? err.message : String(err);
+            Logger.warn(`Failed to apply deferred conflict policies for ${sessionIdentifier}: ${message}`);
+        }
+    }
+
+    private isResolvingConflicts(sessionIdentifier: string): boolean {
+        if (!this.resolvingSessions.has(sessionIdentifier)) {
+            return false;
+        }
+
+        vscode.window.showWarningMessage(
+            'Conflicts in this session are already being resolved (by a conflict policy or another accept). Try again when it finishes.'
+        );
+        return true;
+    }
+
+    /**
+     * Resets and flushes a session whose conflicts were resolved on disk so Mutagen
+     * rescans both endpoints. Returns the failure message, or null on success.
+     */
+    private async convergeResolvedSession(sessionIdentifier: string): Promise<string | null> {
+        try {
+            await this.service.resetSession(sessionIdentifier);
+            await this.service.flushSession(sessionIdentifier);
+            this.clearHandledConflicts(sessionIdentifier);
+            return null;
+        } catch (err) {
+            return err instanceof Error ? err.message : String(err);
+        }
+    }
+
+    private async resolveConflictWithStrategy(
+        session: MutagenSession,
+        conflict: Conflict,
+        strategy: ConflictPolicy['strategy']
+    ): Promise<ConflictResolution> {
+        if (strategy === 'keep-both') {
+            const result = await this.keepBothVersions(session, conflict);
+            return result.copyPath ? 'keep-both' : result.direction;
+        }
+
+        const direction = strategy === 'newest'
+            ? await this.getNewestConflictSide(session, conflict)
+            : strategy;
+        await this.applyConflictDirection(session, conflict, direction);
+        return direction;
+    }
+
+    private async getNewestConflictSide(session: MutagenSession, conflict: Conflict): Promise<ConflictDirection> {
+        const endpoints = this.getConflictEndpoints(session);
+        if (!endpoints) {
+            throw new Error('Unable to find a local endpoint for this session');
+        }
+
+        const localPath = this.resolveLocalConflictPath(endpoints.localEndpoint.path, conflict.root);
+        const remotePath = this.resolveEndpointConflictPath(endpoints.remoteEndpoint, conflict.root);
+        const [localModified, remoteModified] = await Promise.all([
+            this.getEndpointModifiedTime(endpoints.localEndpoint, localPath),
+            this.getEndpointModifiedTime(endpoints.remoteEndpoint, remotePath)
+        ]);
+
+        if (localModified === null && remoteModified === null) {
+            throw new Error('The path no longer exists on either endpoint');
+        }
+
+        // A deleted side has no modification time, so the surviving copy is kept
+        if (remoteModified === null) {
+            return 'local';
+        }
+        if (localModified === null) {
+            return 'remote';
+        }
+        return remoteModified > localModified ? 'remote' : 'local';
+    }
+
+    /**
+     * Keeps the remote version next to the local one as `name.remote-<host>.ext`, then
+     * accepts local so both endpoints end up with both files. When either side is
+     * missing there is nothing to keep twice, and the existing side is accepted instead.
+     */
+    private async keepBothVersions(
+        session: MutagenSession,
+        conflict: Conflict
+    ): Promise<{ direction: ConflictDirection; copyPath?: string }> {
+        const endpoints = this.getConflictEndpoints(session);
+        if (!endpoints) {
+            throw new Error('Unable to find a local endpoint for this session');
+        }
+
+        const localPath = this.resolveLocalConflictPath(endpoints.localEndpoint.path, conflict.root);
+        const remotePath = this.resolveEndpointConflictPath(endpoints.remoteEndpoint, conflict.root);
+        const [localState, remoteState] = await Promise.all([
+            this.getLocalPathState(localPath),
+            this.getEndpointPathState(endpoints.remoteEndpoint, remotePath)
+        ]);
+
+        if (localState === 'missing' || remoteState === 'missing') {
+            const direction: ConflictDirection = remoteState === 'missing' ? 'local' : 'remote';
+            await this.applyConflictDirection(session, conflict, direction);
+            return { direction };
+        }
+
+        const copyPath = await this.getKeepBothCopyPath(localPath, endpoints.remoteEndpoint);
+        await this.copyEndpointPathToLocal(endpoints.remoteEndpoint, remotePath, copyPath);
+        await this.applyConflictDirection(session, conflict, 'local');
+        Logger.info(`Kept remote version of ${conflict.root} as ${copyPath}`);
+        return { direction: 'local', copyPath };
+    }
+
+    private async getKeepBothCopyPath(localPath: string, remoteEndpoint: EndpointAddress): Promise<string> {
+        const extension = path.extname(localPath);
+        const stem = path.basename(localPath, extension);
+        const host = (remoteEndpoint.host || remoteEndpoint.protocol).replace(/[^A-Za-z0-9._-]+/g, '-');
+
+        for (let attempt = 1; ; attempt++) {
+            const suffix = attempt === 1 ? '' : `-${attempt}`;
+            const candidate = path.join(path.dirname(localPath), `${stem}.remote-${host}${suffix}${extension}`);
+            if (await this.getLocalPathState(candidate) === 'missing') {
+                return candidate;
+            }
+        }
+    }
+
+    async diffConflictBackup(item: ConflictBackupTreeItem): Promise<void> {
+        const backup = item.backup;
+        if (!backup) {
+            return;
+        }
+
+        const backupPath = this.backupService.getBackupContentPath(backup);
+        if (backup.kind === 'directory') {
+            await vscode.commands.executeCommand('revealFileInOS', vscode.Uri.file(backupPath));
+            return;
+        }
+
+        try {
+            const currentContent = await vscode.window.withProgress(
+                {
+                    location: vscode.ProgressLocation.Notification,
+                    title: `Fetching current ${backup.side} version of ${backup.conflictRoot}...`
+                },
+                () => this.readEndpointFile(backup.endpoint, backup.originalPath)
+            );
+
+            const currentUri = this.remoteDocuments.createUri(backup.sessionIdentifier, backup.side, backup.conflictRoot);
+            this.remoteDocuments.setContent(currentUri, currentContent ?? '');
+
+            const currentLabel = currentContent === null ? `Current ${backup.side}, deleted` : `Current ${backup.side}`;
+            await vscode.commands.executeCommand(
+                'vscode.diff',
+                vscode.Uri.file(backupPath),
+                currentUri,
+                `${path.basename(backupPath)} (Backup ↔ ${currentLabel})`
+            );
+        } catch (err) {
+            void this.showOperationError('Failed to compare backup', err, () => this.diffConflictBackup(item));
+        }
+    }
+
+    async restoreConflictBackup(item: ConflictBackupTreeItem): Promise<void> {
+        const backup = item.backup;
+        if (!backup) {
+            return;
+        }
+
+        const confirm = await vscode.window.showWarningMessage(
+            `Restore the backed up ${backup.side} version of "${backup.conflictRoot}"?`,
+            {
+                modal: true,
+                detail: `The current content at ${backup.originalPath} will be backed up and then replaced.`
+            },
+            'Restore'
+        );
+
+        if (confirm !== 'Restore') {
+            return;
+        }
+
+        try {
+            const backupPath = this.backupService.getBackupContentPath(backup);
+
+            await vscode.window.withProgress(
+                {
+                    location: vscode.ProgressLocation.Notification,
+                    title: `Restoring ${backup.conflictRoot}...`
+                },
+                async () => {
+                    // The record carries the endpoint, so the safety copy works even after the session is gone
+                    // and regardless of mutagen.conflictBackups.enabled, as the confirmation promised
+                    try {
+                        await this.backupService.createBackup(
+                            {
+                                sessionIdentifier: backup.sessionIdentifier,
+                                sessionName: backup.sessionName,
+                                conflictRoot: backup.conflictRoot,
+                                side: backup.side,
+                                endpoint: backup.endpoint,
+                                originalPath: backup.originalPath
+                            },
+                            destinationPath => this.copyEndpointPathToLocal(backup.endpoint, backup.originalPath, destinationPath),
+                            backup.id
+                        );
+                    } catch (err) {
+                        const message = err instanceof Error ? err.message : String(err);
+                        throw new Error(`Unable to back up the current content of ${backup.conflictRoot}, nothing was restored: ${message}`);
+                    }
+
+                    if (backup.side === 'local') {
+                        await this.copyOrDeleteLocalPath(backupPath, backup.originalPath);
+                    } else {
+                        await this.applyLocalToEndpoint(backupPath, backup.endpoint, backup.originalPath);
+                    }
+                }
+            );
+
+            await this.refresh();
+            vscode.window.showInformationMessage(`Restored ${backup.side} version of "${backup.conflictRoot}"`);
+        } catch (err) {
+            void this.showOperationError('Failed to restore backup', err, () => this.restoreConflictBackup(item));
+        }
+    }
+
+    async deleteConflictBackup(item: ConflictBackupTreeItem): Promise<void> {
+        const backup = item.backup;
+        if (!backup) {
+            return;
+        }
+
+        const confirm = await vscode.window.showWarningMessage(
+            `Delete the ${backup.side} backup of "${backup.conflictRoot}"?`,
+            { modal: true },
+            'Delete'
+        );
+
+        if (confirm !== 'Delete') {
+            return;
+        }
+
+        try {
+            await this.backupService.deleteBackup(backup.id);
+        } catch (err) {
+            const message = err instanceof Error ? err.message : String(err);
+            vscode.window.showErrorMessage(`Failed to delete backup: ${message}`);
+        }
+    }
+
+    async filterConflictHistory(): Promise<void> {
+        const sessions = new Map<string, { name: string; count: number }>();
+        for (const entry of this.historyService.listEntries()) {
+            const current = sessions.get(entry.sessionIdentifier);
+            sessions.set(entry.sessionIdentifier, { name: current?.name ?? entry.sessionName, count: (current?.count ?? 0) + 1 });
+        }
+
+        if (sessions.size === 0) {
+            vscode.window.showInformationMessage('No conflict resolutions have been recorded yet');
+            return;
+        }
+
+        const current = this.historyTreeProvider.getSessionFilter();
+        const items: Array<vscode.QuickPickItem & { sessionIdentifier: string | null }> = [
+            { label: '$(list-flat) All Sessions', sessionIdentifier: null, picked: !current },
+            ...Array.from(sessions, ([sessionIdentifier, { name, count }]) => ({
+                label: name,
+                description: `${count} entr${count === 1 ? 'y' : 'ies'}`,
+                detail: sessionIdentifier,
+                sessionIdentifier,
+                picked: current === sessionIdentifier
+            }))
+        ];
+
+        const selected = await vscode.window.showQuickPick(items, { placeHolder: 'Show conflict history for' });
+        if (selected) {
+            this.historyTreeProvider.setSessionFilter(selected.sessionIdentifier);
+        }
+    }
+
+    async exportConflictHistory(): Promise<void> {
+        const entries = this.historyTreeProvider.getVisibleEntries();
+        if (entries.length === 0) {
+            vscode.window.showInformationMessage('No conflict history to export');
+            return;
+        }
+
+        const defaultFolder = vscode.workspace.workspaceFolders?.[0]?.uri ?? vscode.Uri.file(os.homedir());
+        const target = await vscode.window.showSaveDialog({
+            defaultUri: vscode.Uri.joinPath(defaultFolder, 'mutagen-conflict-history.json'),
+            filters: {
+                JSON: ['json'],
+                CSV: ['csv']
+            },
+            saveLabel: 'Export'
+        });
+
+        if (!target) {
+            return;
+        }
+
+        try {
+            const content = path.extname(target.fsPath).toLowerCase() === '.csv'
+                ? this.formatConflictHistoryCsv(entries)
+                : `${JSON.stringify(entries, null, 2)}\n`;
+            await fs.writeFile(target.fsPath, content, 'utf8');
+            vscode.window.showInformationMessage(`Exported ${entries.length} conflict history entr${entries.length === 1 ? 'y' : 'ies'} to ${target.fsPath}`);
+        } catch (err) {
+            const message = err instanceof Error ? err.message : String(err);
+            vscode.window.showErrorMessage(`Failed to export conflict history: ${message}`);
+        }
+    }
+
+    async clearConflictHistory(): Promise<void> {
+        const confirm = await vscode.window.showWarningMessage(
+            'Clear the entire conflict resolution history?',
+            { modal: true },
+            'Clear'
+        );
+
+        if (confirm !== 'Clear') {
+            return;
+        }
+
+        await this.historyService.clear();
+        this.historyTreeProvider.setSessionFilter(null);
+    }
+
+    private formatConflictHistoryCsv(entries: ConflictHistoryEntry[]): string {
+        const columns: Array<keyof ConflictHistoryEntry> = [
+            'timestamp',
+            'sessionName',
+            'sessionIdentifier',
+            'path',
+            'resolution',
+            'source',
+            'outcome',
+            'error',
+            'user'
+        ];
+        const escape = (value: string) => /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+        const rows = entries.map(entry => columns.map(column => escape(entry[column] ?? '')).join(','));
+        return [columns.join(','), ...rows].join('\r\n') + '\r\n';
+    }
+
+    async openProblemLocal(item: SessionTreeItem): Promise<void> {
+        if (!item.session || !item.problem) {
+            return;
+        }
+
+        try {
+            await this.openLocalSessionPath(item.session, item.problem.path);
+        } catch (err) {
+            const message = err instanceof Error ? err.message : String(err);
+            vscode.window.showErrorMessage(`Failed to open local problem path: ${message}`);
+        }
+    }
+
+    async copyProblemRemotePath(item: SessionTreeItem): Promise<void> {
+        if (!item.session || !item.problem) {
+            return;
+        }
+
+        try {
+            const remotePath = this.getConflictRemotePathDisplay(item.session, item.problem.path);
+            await vscode.env.clipboard.writeText(remotePath);
+            vscode.window.showInformationMessage(`Copied remote problem path: ${remotePath}`);
+        } catch (err) {
+            const message = err instanceof Error ? err.message : String(err);
+            vscode.window.showErrorMessage(`Failed to copy remote path: ${message}`);
+        }
+    }
+
+    async ignoreProblemPath(item: SessionTreeItem): Promise<void> {
+        if (!item.session || !item.problem) {
+            return;
+        }
+
+        const session = item.session;
+        const defaults = this.extractSessionDefaults(session);
+        if (!defaults) {
+            vscode.window.showErrorMessage('Unable to determine local/remote endpoints for this session');
+            return;
+        }
+
+        // Anchor the pattern to the sync root and escape glob characters so only this path is excluded
+        const ignorePattern = `/${this.splitConflictRoot(item.problem.path)
+            .map(segment => segment.replace(/[*?[\]\\!]/g, '\\$&'))
+            .join('/')}`;
+        if (defaults.sessionIgnorePaths.includes(ignorePattern)) {
+            vscode.window.showInformationMessage(`"${ignorePattern}" is already ignored by this session`);
+            return;
+        }
+
+        const confirm = await vscode.window.showWarningMessage(
+            `Add "${ignorePattern}" to the ignore list of "${session.name}"? The session will be recreated with a new identifier.`,
+            { modal: true },
+            'Ignore and Recreate'
+        );
+
+        if (confirm !== 'Ignore and Recreate') {
+            return;
+        }
+
+        const draft: SessionConfigDraft = {
+            ...defaults,
+            sessionIgnorePaths: [...defaults.sessionIgnorePaths, ignorePattern]
+        };
+
+        try {
+            const newSession = await this.runWithProgress(
+                `Recreating "${session.name}" with updated ignores...`,
+                token => this.recreateSessionFromDraft(session.identifier, draft, token)
+            );
+
+            await this.maybeSaveConnectionProfile({
+                name: draft.name.trim() || path.basename(draft.localPath),
+                localPath: draft.localPath,
+                remotePath: draft.remotePath,
+                mode: draft.mode,
+                ignoreVcs: draft.ignoreVcs ?? false,
+                ignorePaths: draft.sessionIgnorePaths,
+                labels: draft.labels,
+                advancedOptions: draft.advancedOptions,
+                workspaceFolder: this.resolveWorkspaceFolderPath(draft.localPath),
+                lastSessionIdentifier: newSession.identifier
+            });
+
+            vscode.window.showInformationMessage(`Ignoring "${ignorePattern}" in session "${session.name}"`);
+            await this.refresh();
+        } catch (err) {
+            void this.showOperationError(
+                'Failed to add ignore pattern',
+                err,
+                err instanceof SessionReplacementError ? () => this.createSessionFromDraft(draft, err) : undefined
+            );
+        }
+    }
+
+    async copyConflictRemotePath(item: SessionTreeItem): Promise<void> {
+        const conflictData = this.getConflictDataFromItem(item);
+        if (!conflictData) {
+            return;
+        }
+
+        try {
+            const remotePath = this.getConflictRemotePathDisplay(conflictData.session, conflictData.conflict.root);
+            await vscode.env.clipboard.writeText(remotePath);
+            vscode.window.showInformationMessage(`Copied remote conflict path: ${remotePath}`);
+        } catch (err) {
+            const message = err instanceof Error ? err.message : String(err);
+            vscode.window.showErrorMessage(`Failed to copy remote path: ${message}`);
+        }
+    }
+
+    async copyConflictAcceptCommand(item: SessionTreeItem, direction: ConflictDirection): Promise<void> {
+        const conflictData = this.getConflictDataFromItem(item);
+        if (!conflictData) {
+            return;
+        }
+
+        try {
+            const command = this.buildConflictAcceptCommand(conflictData.session, conflictData.conflict, direction);
+            await vscode.env.clipboard.writeText(command);
+            vscode.window.showInformationMessage(
+                `Copied ${direction === 'local' ? 'accept-local' : 'accept-remote'} command`
+            );
+        } catch (err) {
+            const message = err instanceof Error ? err.message : String(err);
+            vscode.window.showErrorMessage(`Failed to copy command: ${message}`);
+        }
+    }
+
+    async acceptConflict(item: SessionTreeItem, mode: ConflictAcceptMode): Promise<void> {
+        const conflictData = this.getConflictDataFromItem(item);
+        if (!conflictData) {
+            return;
+        }
+
+        try {
+            const session = await this.service.getSession(conflictData.session.identifier);
+            if (!session) {
+                vscode.window.showErrorMessage('Session not found. Try refreshing and retrying.');
+                return;
+            }
+
+            const latestConflict = this.findConflictInSession(session, conflictData.conflict);
+            if (!latestConflict) {
+                await this.refresh();
+                vscode.window.showInformationMessage(`Conflict "${conflictData.conflict.root}" is already resolved`);
+                return;
+            }
+
+            if (this.isResolvingConflicts(session.identifier)) {
+                return;
+            }
+
+            const copyPath = await this.runExclusiveResolution(session.identifier, async () => {
+                let keptCopyPath: string | undefined;
+                try {
+                    keptCopyPath = await this.applyConflictAcceptMode(session, latestConflict, mode);
+                } catch (err) {
+                    await this.recordConflictHistory(session, latestConflict.root, mode, 'accept', err);
+                    throw err;
+                }
+                this.markConflictHandled(session.identifier, latestConflict, mode);
+                await this.recordConflictHistory(session, latestConflict.root, mode, 'accept');
+                return keptCopyPath;
+            });
+
+            await this.refresh();
+            vscode.window.showInformationMessage(
+                mode === 'keep-both'
+                    ? copyPath
+                        ? `Kept both versions of "${latestConflict.root}"; the remote version is now ${path.basename(copyPath)}`
+                        : `Only one side of "${latestConflict.root}" exists, so it was kept on both endpoints`
+                    : `Accepted ${mode} version for "${latestConflict.root}"`
+            );
+        } catch (err) {
+            void this.showOperationError('Failed to resolve conflict', err, () => this.acceptConflict(item, mode));
+        }
+    }
+
+    async acceptAllConflicts(item: SessionTreeItem, mode: ConflictAcceptMode): Promise<void> {
+        if (!item.session) {
+            return;
+        }
+
+        try {
+            const session = await this.service.getSession(item.session.identifier);
+            if (!session) {
+                vscode.window.showErrorMessage('Session not found. Try refreshing and retrying.');
+                return;
+            }
+
+            const conflicts = session.conflicts ?? [];
+            if (conflicts.length === 0) {
+                this.clearHandledConflicts(session.identifier);
+                await this.refresh();
+                vscode.window.showInformationMessage('No conflicts to process');
+                return;
+            }
+
+            if (this.isResolvingConflicts(session.identifier)) {
+                return;
+            }
+
+            const exclusion = this.splitHandledConflicts(session.identifier, conflicts);
+            if (exclusion.pending.length === 0) {
+                vscode.window.showInformationMessage(
+                    `No pending conflicts. Total: ${conflicts.length}, skipped handled: ${exclusion.excludedCount}.`
+                );
+                return;
+            }
+
+            const previewItems = await this.runWithProgress(
+                `Inspecting ${exclusion.pending.length} conflict(s)...`,
+                async token => {
+                    const results = await runWithConcurrency(
+                        exclusion.pending,
+                        CONFLICT_PREVIEW_CONCURRENCY,
+                        conflict => {
+                            // Conflicts not yet inspected are skipped once the user cancels
+                            if (token.isCancellationRequested) {
+                                return Promise.reject(new CommandCancelledError('Conflict preview cancelled'));
+                            }
+                            return this.previewConflictResolution(session, conflict, mode, token);
+                        }
+                    );
+                    return token.isCancellationRequested ? null : results.map((result, index) =>
+                        result.status === 'fulfilled'
+                            ? result.value
+                            : this.createFailedConflictPreviewItem(exclusion.pending[index], result.reason)
+                    );
+                }
             );
 
-            if (confirm !== 'Accept All') {
+            if (!previewItems) {
+                return;
+            }
+
+            const uninspectedCount = previewItems.filter(previewItem => previewItem.inspectionFailed).length;
+            const placeHolder = ['Untick conflicts to leave them unresolved.'];
+            if (uninspectedCount > 0) {
+                placeHolder.push(`${uninspectedCount} conflict(s) could not be inspected and are unticked; tick them to resolve anyway.`);
+            }
+            if (exclusion.excludedCount > 0) {
+                placeHolder.push(`${exclusion.excludedCount} handled conflict(s) with unchanged versions are skipped.`);
+            }
+
+            const selection = await vscode.window.showQuickPick(previewItems, {
+                canPickMany: true,
+                matchOnDescription: true,
+                title: `${CONFLICT_ACCEPT_TITLES[mode]} for ${previewItems.length} conflict(s)`,
+                placeHolder: placeHolder.join(' ')
+            });
+
+            // A policy run may have started while the picker was open
+            if (!selection || selection.length === 0 || this.isResolvingConflicts(session.identifier)) {
                 return;
             }
 
             let successCount = 0;
             const failed: string[] = [];
-
-            for (const conflict of exclusion.pending) {
-                try {
-                    await this.applyConflictDirection(session, conflict, direction);
-                    this.markConflictHandled(session.identifier, conflict, direction);
-                    successCount += 1;
-                } catch (err) {
-                    const message = err instanceof Error ? err.message : String(err);
-                    failed.push(`${conflict.root}: ${message}`);
-                }
-            }
-
-            const attemptedCount = exclusion.pending.length;
-            const failedCount = failed.length;
-            const allSucceeded = attemptedCount > 0 && failedCount === 0;
+            const deselectedCount = exclusion.pending.length - selection.length;
+            const attemptedCount = selection.length;
             let converged = false;
             let convergenceError: string | null = null;
 
-            if (allSucceeded) {
-                try {
-                    await this.service.resetSession(session.identifier);
-                    await this.service.flushSession(session.identifier);
-                    this.clearHandledConflicts(session.identifier);
-                    converged = true;
-                } catch (err) {
-                    const message = err instanceof Error ? err.message : String(err);
-                    convergenceError = message;
+            await this.runExclusiveResolution(session.identifier, async () => {
+                for (const { conflict } of selection) {
+                    try {
+                        await this.applyConflictAcceptMode(session, conflict, mode);
+                        this.markConflictHandled(session.identifier, conflict, mode);
+                        await this.recordConflictHistory(session, conflict.root, mode, 'accept-all');
+                        successCount += 1;
+                    } catch (err) {
+                        const message = err instanceof Error ? err.message : String(err);
+                        failed.push(`${conflict.root}: ${message}`);
+                        await this.recordConflictHistory(session, conflict.root, mode, 'accept-all', err);
+                    }
                 }
-            }
+
+                if (failed.length === 0) {
+                    convergenceError = await this.convergeResolvedSession(session.identifier);
+                    converged = convergenceError === null;
+                }
+            });
+
+            const failedCount = failed.length;
 
             await this.refresh();
 
             const summary = `Total: ${conflicts.length}, skipped handled: ${exclusion.excludedCount}, `
+                + `${deselectedCount > 0 ? `deselected: ${deselectedCount}, ` : ''}`
                 + `attempted: ${attemptedCount}, success: ${successCount}, failed: ${failedCount}`;
 
             if (failedCount === 0) {
@@ -527,9 +2198,99 @@ export class CommandManager {
             const detail = failed.slice(0, 3).join(' | ');
             vscode.window.showWarningMessage(`${summary}. Failed items: ${detail}`);
         } catch (err) {
-            const message = err instanceof Error ? err.message : String(err);
-            vscode.window.showErrorMessage(`Failed to accept all conflicts: ${message}`);
+            void this.showOperationError('Failed to resolve all conflicts', err, () => this.acceptAllConflicts(item, mode));
+        }
+    }
+
+    /**
+     * Applies `mode` to one conflict and returns the path of the kept remote copy, if one was made.
+     */
+    private async applyConflictAcceptMode(
+        session: MutagenSession,
+        conflict: Conflict,
+        mode: ConflictAcceptMode
+    ): Promise<string | undefined> {
+        if (mode === 'keep-both') {
+            return (await this.keepBothVersions(session, conflict)).copyPath;
+        }
+
+        await this.applyConflictDirection(session, conflict, mode);
+        return undefined;
+    }
+
+    /**
+     * Describes what `mode` would do to the endpoints without changing anything.
+     */
+    private async previewConflictResolution(
+        session: MutagenSession,
+        conflict: Conflict,
+        mode: ConflictAcceptMode,
+        token?: vscode.CancellationToken
+    ): Promise<ConflictPreviewItem> {
+        const endpoints = this.getConflictEndpoints(session);
+        if (!endpoints) {
+            throw new Error('Unable to find a local endpoint for this session');
+        }
+
+        const localPath = this.resolveLocalConflictPath(endpoints.localEndpoint.path, conflict.root);
+        const remotePath = this.resolveEndpointConflictPath(endpoints.remoteEndpoint, conflict.root);
+        const [localInfo, remoteInfo] = await Promise.all([
+            this.getEndpointPathInfo(endpoints.localEndpoint, localPath, token),
+            this.getEndpointPathInfo(endpoints.remoteEndpoint, remotePath, token)
+        ]);
+
+        const describeInfo = (info: EndpointPathInfo) =>
+            info.state === 'file' ? formatFileSize(info.size ?? 0) : info.state;
+        const detail = `local: ${describeInfo(localInfo)} · remote: ${describeInfo(remoteInfo)}`;
+
+        if (mode === 'keep-both' && localInfo.state !== 'missing' && remoteInfo.state !== 'missing') {
+            const copyPath = await this.getKeepBothCopyPath(localPath, endpoints.remoteEndpoint);
+            return {
+                label: `$(files) ${conflict.root}`,
+                description: `Keep both; remote version saved as ${path.basename(copyPath)}`,
+                detail,
+                picked: true,
+                conflict
+            };
+        }
+
+        // Keep Both with one side missing falls back to keeping the side that exists, as keepBothVersions does
+        const direction: ConflictDirection = mode !== 'keep-both'
+            ? mode
+            : remoteInfo.state === 'missing' ? 'local' : 'remote';
+        const [source, target] = direction === 'local' ? [localInfo, remoteInfo] : [remoteInfo, localInfo];
+        const targetEndpoint = direction === 'local' ? endpoints.remoteEndpoint : endpoints.localEndpoint;
+        const action: ConflictPreviewAction = source.state === 'missing'
+            ? target.state === 'missing' ? 'none' : 'delete'
+            : target.state === 'missing' ? 'create' : 'overwrite';
+        const { icon, label } = CONFLICT_PREVIEW_ACTIONS[action];
+
+        return {
+            label: `$(${icon}) ${conflict.root}`,
+            description: `${label} on ${this.describeEndpointAddress(targetEndpoint)}`,
+            detail,
+            picked: true,
+            conflict
+        };
+    }
+
+    private createFailedConflictPreviewItem(conflict: Conflict, err: unknown): ConflictPreviewItem {
+        const message = err instanceof Error ? err.message : String(err);
+        return {
+            label: `$(warning) ${conflict.root}`,
+            description: 'Unable to inspect',
+            detail: message,
+            picked: false,
+            conflict,
+            inspectionFailed: true
+        };
+    }
+
+    private describeEndpointAddress(endpoint: EndpointAddress): string {
+        if (endpoint.protocol === 'local') {
+            return 'local';
         }
+        return `${endpoint.protocol}://${endpoint.user ? `${endpoint.user}@` : ''}${endpoint.host ?? ''}`;
     }
 
     async connectSessionInCurrentWindow(item: SessionTreeItem): Promise<void> {
@@ -554,8 +2315,7 @@ export class CommandManager {
             vscode.window.showInformationMessage('Mutagen daemon started');
             await this.refresh();
         } catch (err) {
-            const message = err instanceof Error ? err.message : String(err);
-            vscode.window.showErrorMessage(`Failed to start daemon: ${message}`);
+            void this.showOperationError('Failed to start daemon', err, () => this.startDaemon());
         }
     }
 
@@ -575,8 +2335,7 @@ export class CommandManager {
             vscode.window.showInformationMessage('Mutagen daemon stopped');
             await this.refresh();
         } catch (err) {
-            const message = err instanceof Error ? err.message : String(err);
-            vscode.window.showErrorMessage(`Failed to stop daemon: ${message}`);
+            void this.showOperationError('Failed to stop daemon', err);
         }
     }
 
@@ -596,14 +2355,15 @@ export class CommandManager {
             return;
         }
 
-        const { localPath, remotePath, name, mode, ignoreVcs, sessionIgnorePaths } = editedConfig;
-        const workspaceFolder = getWorkspaceFolderForPath(localPath);
-        const globalIgnorePaths = getMergedGlobalIgnorePatterns(workspaceFolder?.uri);
-        const effectiveIgnorePaths = mergeIgnorePatterns(sessionIgnorePaths, globalIgnorePaths);
+        const changes = this.describeSessionConfigChanges(defaults, editedConfig);
+        if (changes.length === 0) {
+            vscode.window.showInformationMessage('No configuration changes to apply');
+            return;
+        }
 
         const confirm = await vscode.window.showWarningMessage(
             `Recreate session "${item.session.name}" with updated configuration? This will terminate the current session and create a new one with a different identifier.`,
-            { modal: true },
+            { modal: true, detail: changes.join('\n') },
             'Recreate Session'
         );
 
@@ -611,23 +2371,13 @@ export class CommandManager {
             return;
         }
 
-        const options: CreateSessionOptions = {
-            name: name.trim() || undefined,
-            mode,
-            ignoreVcs: ignoreVcs ?? false
-        };
-
-        if (effectiveIgnorePaths.length > 0) {
-            options.ignorePaths = effectiveIgnorePaths;
-        }
+        const { localPath, remotePath, name, mode, ignoreVcs, sessionIgnorePaths, labels, advancedOptions } = editedConfig;
 
         try {
-            this.statusBar.showMessage('Recreating session...', 'sync~spin');
-            const newSessionIdentifier = await this.service.recreateSession(
-                item.session.identifier,
-                localPath,
-                remotePath,
-                options
+            const sessionIdentifier = item.session.identifier;
+            const newSession = await this.runWithProgress(
+                'Recreating session...',
+                token => this.recreateSessionFromDraft(sessionIdentifier, editedConfig, token)
             );
 
             await this.maybeSaveConnectionProfile({
@@ -637,17 +2387,23 @@ export class CommandManager {
                 mode,
                 ignoreVcs: ignoreVcs ?? false,
                 ignorePaths: sessionIgnorePaths,
+                labels,
+                advancedOptions,
                 workspaceFolder: this.resolveWorkspaceFolderPath(localPath),
-                lastSessionIdentifier: newSessionIdentifier
+                lastSessionIdentifier: newSession.identifier
             });
 
             vscode.window.showInformationMessage(
-                `Session recreated successfully (new identifier: ${newSessionIdentifier || 'unknown'})`
+                `Session recreated successfully (new identifier: ${newSession.identifier})`
             );
             await this.refresh();
         } catch (err) {
             const message = err instanceof Error ? err.message : String(err);
-            vscode.window.showErrorMessage(`Failed to recreate session: ${message}`);
+            void this.showOperationError(
+                'Failed to recreate session',
+                err,
+                err instanceof SessionReplacementError ? () => this.createSessionFromDraft(editedConfig, err) : undefined
+            );
             Logger.error(`Recreate session failed: ${message}`);
         }
     }
@@ -690,8 +2446,10 @@ export class CommandManager {
         }
 
         try {
-            this.statusBar.showMessage(`Connecting ${selected.profile.name}...`, 'sync~spin');
-            const sessionIdentifier = await this.restoreConnectionProfile(selected.profile);
+            const sessionIdentifier = await this.runWithProgress(
+                `Connecting ${selected.profile.name}...`,
+                token => this.restoreConnectionProfile(selected.profile, token)
+            );
             if (!sessionIdentifier) {
                 vscode.window.showWarningMessage(`No session was restored for ${selected.profile.name}`);
                 return;
@@ -701,7 +2459,7 @@ export class CommandManager {
             vscode.window.showInformationMessage(`Connected saved session "${selected.profile.name}"`);
         } catch (err) {
             const message = err instanceof Error ? err.message : String(err);
-            vscode.window.showErrorMessage(`Failed to connect saved session: ${message}`);
+            void this.showOperationError('Failed to connect saved session', err);
             Logger.error(`Connect saved session failed: ${message}`);
         }
     }
@@ -743,12 +2501,15 @@ export class CommandManager {
 
         if (action.value === 'connect') {
             try {
-                await this.restoreConnectionProfile(selected.profile);
+                await this.runWithProgress(
+                    `Connecting ${selected.profile.name}...`,
+                    token => this.restoreConnectionProfile(selected.profile, token)
+                );
                 await this.refresh();
                 vscode.window.showInformationMessage(`Connected saved session "${selected.profile.name}"`);
             } catch (err) {
                 const message = err instanceof Error ? err.message : String(err);
-                vscode.window.showErrorMessage(`Failed to connect saved session: ${message}`);
+                void this.showOperationError('Failed to connect saved session', err);
                 Logger.error(`Manage saved session connect failed: ${message}`);
             }
             return;
@@ -772,20 +2533,23 @@ export class CommandManager {
         }
     }
 
-    async restoreConnectionProfile(profile: ConnectionProfile): Promise<string | null> {
+    async restoreConnectionProfile(
+        profile: ConnectionProfile,
+        token?: vscode.CancellationToken
+    ): Promise<string | null> {
         let session: MutagenSession | null = null;
 
         if (profile.lastSessionIdentifier) {
-            session = await this.service.findSessionByIdentifier(profile.lastSessionIdentifier);
+            session = await this.service.findSessionByIdentifier(profile.lastSessionIdentifier, token);
         }
 
         if (!session) {
-            session = await this.service.findSessionByEndpoints(profile.localPath, profile.remotePath);
+            session = await this.service.findSessionByEndpoints(profile.localPath, profile.remotePath, token);
         }
 
         if (session) {
             if (session.paused || session.status === 'disconnected') {
-                await this.service.resumeSession(session.identifier);
+                await this.service.resumeSession(session.identifier, token);
             }
 
             await this.profileService.updateLastSessionIdentifier(profile.id, session.identifier);
@@ -793,12 +2557,22 @@ export class CommandManager {
         }
 
         const options = this.buildCreateOptionsFromProfile(profile);
-        const sessionIdentifier = await this.service.createSession(profile.localPath, profile.remotePath, options);
-        await this.profileService.updateLastSessionIdentifier(profile.id, sessionIdentifier);
-        return sessionIdentifier;
+        const createdSession = await this.service.createSession(profile.localPath, profile.remotePath, options, token);
+        await this.profileService.updateLastSessionIdentifier(profile.id, createdSession.identifier);
+        return createdSession.identifier;
     }
 
     async restoreConnectionProfileWithRetry(profile: ConnectionProfile): Promise<string | null> {
+        return this.runWithProgress(
+            `Restoring ${profile.name}...`,
+            token => this.restoreConnectionProfileAttempts(profile, token)
+        );
+    }
+
+    private async restoreConnectionProfileAttempts(
+        profile: ConnectionProfile,
+        token: vscode.CancellationToken
+    ): Promise<string | null> {
         const config = vscode.workspace.getConfiguration('mutagen');
         const maxRetries = config.get<number>('maxConnectionRetries', 3);
         
@@ -807,7 +2581,7 @@ export class CommandManager {
         for (let attempt = 1; attempt <= maxRetries; attempt++) {
             try {
                 Logger.info(`Attempting to restore connection profile "${profile.name}" (attempt ${attempt}/${maxRetries})`);
-                const sessionIdentifier = await this.restoreConnectionProfile(profile);
+                const sessionIdentifier = await this.restoreConnectionProfile(profile, token);
                 
                 if (sessionIdentifier) {
                     Logger.info(`Successfully restored connection profile "${profile.name}" on attempt ${attempt}`);
@@ -816,6 +2590,10 @@ export class CommandManager {
                 
                 Logger.warn(`Failed to restore connection profile "${profile.name}" on attempt ${attempt}: no session returned`);
             } catch (err) {
+                if (err instanceof CommandCancelledError) {
+                    throw err;
+                }
+
                 lastError = err instanceof Error ? err : new Error(String(err));
                 Logger.warn(`Failed to restore connection profile "${profile.name}" on attempt ${attempt}/${maxRetries}: ${lastError.message}`);
                 
@@ -878,6 +2656,63 @@ export class CommandManager {
         }
     }
 
+    /**
+     * Terminate a session and create its replacement from an edited draft,
+     * carrying over labels and every advanced option the draft holds.
+     */
+    private recreateSessionFromDraft(
+        identifier: string,
+        draft: SessionConfigDraft,
+        token?: vscode.CancellationToken
+    ): Promise<MutagenSession> {
+        const { alpha, beta, options } = this.buildCreateArgsFromDraft(draft);
+        return this.service.recreateSession(identifier, alpha, beta, options, token);
+    }
+
+    /**
+     * Retry path for a recreate whose terminate went through but whose create failed:
+     * the old session is gone, so the draft is created as a new session.
+     */
+    private async createSessionFromDraft(draft: SessionConfigDraft, err: SessionReplacementError): Promise<void> {
+        const { alpha, beta, options } = this.buildCreateArgsFromDraft(draft);
+        try {
+            const session = await this.runWithProgress(
+                'Creating replacement session...',
+                token => this.service.createSession(alpha, beta, options, token)
+            );
+            vscode.window.showInformationMessage(
+                `Created replacement for terminated session ${err.terminatedIdentifier} (new identifier: ${session.identifier})`
+            );
+            await this.refresh();
+        } catch (retryErr) {
+            void this.showOperationError('Failed to create replacement session', retryErr, () => this.createSessionFromDraft(draft, err));
+        }
+    }
+
+    private buildCreateArgsFromDraft(draft: SessionConfigDraft): { alpha: string; beta: string; options: CreateSessionOptions } {
+        const workspaceFolder = getWorkspaceFolderForPath(draft.localPath);
+        const globalIgnorePaths = getMergedGlobalIgnorePatterns(workspaceFolder?.uri);
+        const effectiveIgnorePaths = mergeIgnorePatterns(draft.sessionIgnorePaths, globalIgnorePaths);
+
+        const options: CreateSessionOptions = {
+            ...draft.advancedOptions,
+            name: draft.name.trim() || undefined,
+            labels: draft.labels,
+            mode: draft.mode,
+            ignoreVcs: draft.ignoreVcs ?? false,
+            paused: draft.paused
+        };
+
+        if (effectiveIgnorePaths.length > 0) {
+            options.ignorePaths = effectiveIgnorePaths;
+        }
+
+        const [alpha, beta] = draft.localIsAlpha
+            ? [draft.localPath, draft.remotePath]
+            : [draft.remotePath, draft.localPath];
+        return { alpha, beta, options };
+    }
+
     private buildCreateOptionsFromProfile(profile: ConnectionProfile): CreateSessionOptions {
         const workspaceUri = profile.workspaceFolder
             ? vscode.Uri.file(profile.workspaceFolder)
@@ -886,7 +2721,9 @@ export class CommandManager {
         const effectiveIgnorePaths = mergeIgnorePatterns(profile.ignorePaths ?? [], globalIgnorePaths);
 
         const options: CreateSessionOptions = {
+            ...profile.advancedOptions,
             name: profile.name || undefined,
+            labels: profile.labels,
             mode: profile.mode ?? 'two-way-safe',
             ignoreVcs: profile.ignoreVcs ?? false
         };
@@ -898,6 +2735,53 @@ export class CommandManager {
         return options;
     }
 
+    private async openLocalSessionPath(session: MutagenSession, relativePath: string): Promise<void> {
+        const endpoints = this.getConflictEndpoints(session);
+        if (!endpoints) {
+            vscode.window.showErrorMessage('Unable to locate local endpoint for this session');
+            return;
+        }
+
+        const localPath = this.resolveLocalConflictPath(endpoints.localEndpoint.path, relativePath);
+        const state = await this.getLocalPathState(localPath);
+        if (state === 'missing') {
+            vscode.window.showWarningMessage(`Local path does not exist: ${localPath}`);
+            return;
+        }
+
+        if (state === 'directory') {
+            await vscode.commands.executeCommand('revealInExplorer', vscode.Uri.file(localPath));
+            return;
+        }
+
+        const doc = await vscode.workspace.openTextDocument(vscode.Uri.file(localPath));
+        await vscode.window.showTextDocument(doc, { preview: false });
+    }
+
+    private async pickProject(placeHolder: string): Promise<MutagenProject | undefined> {
+        const projects = await this.projectService.detectProjects();
+        if (projects.length === 0) {
+            vscode.window.showInformationMessage('No mutagen.yml found in the current workspace folders');
+            return undefined;
+        }
+
+        if (projects.length === 1) {
+            return projects[0];
+        }
+
+        const selected = await vscode.window.showQuickPick<ProjectQuickPickItem>(
+            projects.map(project => ({
+                label: project.name,
+                description: project.identifier ? 'Started' : 'Not started',
+                detail: project.projectFile,
+                project
+            })),
+            { placeHolder }
+        );
+
+        return selected?.project;
+    }
+
     private getLocalSessionPath(session: MutagenSession): string | null {
         if (session.alpha.protocol === 'local') {
             return path.resolve(session.alpha.path);
@@ -972,6 +2856,115 @@ export class CommandManager {
         }
     }
 
+    /**
+     * Run a CLI-backed operation behind a cancellable progress notification.
+     * Cancelling kills the underlying mutagen process via the passed token.
+     */
+    private runWithProgress<T>(
+        title: string,
+        task: (token: vscode.CancellationToken) => Promise<T>
+    ): Thenable<T> {
+        return vscode.window.withProgress(
+            {
+                location: vscode.ProgressLocation.Notification,
+                title,
+                cancellable: true
+            },
+            (_progress, token) => task(token)
+        );
+    }
+
+    private async showOperationError(
+        prefix: string,
+        err: unknown,
+        retry?: () => Promise<void>
+    ): Promise<void> {
+        if (err instanceof CommandCancelledError) {
+            Logger.info(`${prefix}: cancelled by user`);
+            return;
+        }
+
+        if (!(err instanceof MutagenError)) {
+            const message = err instanceof Error ? err.message : String(err);
+            vscode.window.showErrorMessage(`${prefix}: ${message}`);
+            return;
+        }
+
+        const actionLabels: Record<MutagenErrorAction, string> = {
+            startDaemon: 'Start Daemon',
+            openSshConfig: 'Open SSH Config',
+            showLogs: 'Show Logs',
+            retry: 'Retry'
+        };
+        const actions = err.actions.filter(action => action !== 'retry' || retry);
+        const selected = await vscode.window.showErrorMessage(
+            `${prefix}: ${err.summary}`,
+            ...actions.map(action => actionLabels[action])
+        );
+        const action = actions.find(candidate => actionLabels[candidate] === selected);
+
+        switch (action) {
+            case 'startDaemon':
+                await this.startDaemon();
+                if (retry) {
+                    await retry();
+                }
+                break;
+            case 'openSshConfig':
+                await this.openSshConfig();
+                break;
+            case 'showLogs':
+                Logger.show();
+                break;
+            case 'retry':
+                await retry?.();
+                break;
+        }
+    }
+
+    private async openSshConfig(): Promise<void> {
+        const sshConfigPath = path.join(os.homedir(), '.ssh', 'config');
+
+        try {
+            // Create an empty config so the editor can open it on machines without one
+            await fs.mkdir(path.dirname(sshConfigPath), { recursive: true, mode: 0o700 });
+            await fs.appendFile(sshConfigPath, '', { mode: 0o600 });
+
+            const doc = await vscode.workspace.openTextDocument(vscode.Uri.file(sshConfigPath));
+            await vscode.window.showTextDocument(doc, { preview: false });
+        } catch (err) {
+            const message = err instanceof Error ? err.message : String(err);
+            vscode.window.showErrorMessage(`Failed to open SSH config: ${message}`);
+        }
+    }
+
+    private parseLabelsInput(rawInput: string): Record<string, string> {
+        const labels: Record<string, string> = {};
+        for (const entry of rawInput.split(/[\n,]/)) {
+            const trimmed = entry.trim();
+            if (!trimmed) {
+                continue;
+            }
+
+            const separatorIndex = trimmed.indexOf('=');
+            const key = separatorIndex < 0 ? trimmed : trimmed.slice(0, separatorIndex).trim();
+            labels[key] = separatorIndex < 0 ? '' : trimmed.slice(separatorIndex + 1).trim();
+        }
+        return labels;
+    }
+
+    private validateLabelsInput(rawInput: string): string | null {
+        for (const [key, value] of Object.entries(this.parseLabelsInput(rawInput))) {
+            if (!LABEL_KEY_PATTERN.test(key)) {
+                return `Invalid label key "${key}"`;
+            }
+            if (!LABEL_VALUE_PATTERN.test(value)) {
+                return `Invalid value "${value}" for label "${key}"`;
+            }
+        }
+        return null;
+    }
+
     private parseIgnorePatterns(rawInput: string): string[] {
         const entries = rawInput
             .split(/[\n,]/)
@@ -1024,16 +3017,69 @@ export class CommandManager {
         const remotePath = this.resolveEndpointConflictPath(endpoints.remoteEndpoint, conflict.root);
 
         if (direction === 'local') {
+            await this.backupConflictSide(session, conflict.root, 'remote', endpoints.remoteEndpoint, remotePath);
             await this.applyLocalToEndpoint(localPath, endpoints.remoteEndpoint, remotePath);
             return;
         }
 
+        await this.backupConflictSide(session, conflict.root, 'local', endpoints.localEndpoint, localPath);
         await this.applyEndpointToLocal(endpoints.remoteEndpoint, remotePath, localPath);
     }
 
+    /**
+     * Copies the side about to be overwritten into backup storage. A failed backup
+     * aborts the caller so nothing is overwritten without a copy.
+     */
+    private async backupConflictSide(
+        session: MutagenSession,
+        conflictRoot: string,
+        side: ConflictBackupSide,
+        endpoint: EndpointAddress,
+        originalPath: string
+    ): Promise<void> {
+        if (!this.backupService.isEnabled()) {
+            return;
+        }
+
+        try {
+            await this.backupService.createBackup(
+                {
+                    sessionIdentifier: session.identifier,
+                    sessionName: toSessionSummary(session).name,
+                    conflictRoot,
+                    side,
+                    endpoint,
+                    originalPath
+                },
+                destinationPath => this.copyEndpointPathToLocal(endpoint, originalPath, destinationPath)
+            );
+        } catch (err) {
+            const message = err instanceof Error ? err.message : String(err);
+            throw new Error(`Unable to back up the ${side} version of ${conflictRoot}, nothing was overwritten: ${message}`);
+        }
+    }
+
+    private async copyEndpointPathToLocal(
+        endpoint: EndpointAddress,
+        sourcePath: string,
+        localDestinationPath: string
+    ): Promise<void> {
+        if (endpoint.protocol === 'local') {
+            await this.copyOrDeleteLocalPath(sourcePath, localDestinationPath);
+            return;
+        }
+
+        if (endpoint.protocol === 'ssh') {
+            await this.applySshToLocal(endpoint, sourcePath, localDestinationPath);
+            return;
+        }
+
+        await this.applyDockerToLocal(endpoint, sourcePath, localDestinationPath);
+    }
+
     private async applyLocalToEndpoint(
         localSourcePath: string,
-        remoteEndpoint: MutagenEndpoint,
+        remoteEndpoint: EndpointAddress,
         remoteDestinationPath: string
     ): Promise<void> {
         if (remoteEndpoint.protocol === 'local') {
@@ -1046,25 +3092,15 @@ export class CommandManager {
             return;
         }
 
-        throw new Error('Docker endpoints are not supported for auto-apply. Use copy command fallback.');
+        await this.applyLocalToDocker(localSourcePath, remoteEndpoint, remoteDestinationPath);
     }
 
     private async applyEndpointToLocal(
-        remoteEndpoint: MutagenEndpoint,
+        remoteEndpoint: EndpointAddress,
         remoteSourcePath: string,
         localDestinationPath: string
     ): Promise<void> {
-        if (remoteEndpoint.protocol === 'local') {
-            await this.copyOrDeleteLocalPath(remoteSourcePath, localDestinationPath);
-            return;
-        }
-
-        if (remoteEndpoint.protocol === 'ssh') {
-            await this.applySshToLocal(remoteEndpoint, remoteSourcePath, localDestinationPath);
-            return;
-        }
-
-        throw new Error('Docker endpoints are not supported for auto-apply. Use copy command fallback.');
+        await this.copyEndpointPathToLocal(remoteEndpoint, remoteSourcePath, localDestinationPath);
     }
 
     private async copyOrDeleteLocalPath(sourcePath: string, destinationPath: string): Promise<void> {
@@ -1091,7 +3127,7 @@ export class CommandManager {
 
     private async applyLocalToSsh(
         localSourcePath: string,
-        remoteEndpoint: MutagenEndpoint,
+        remoteEndpoint: EndpointAddress,
         remoteDestinationPath: string
     ): Promise<void> {
         const sourceState = await this.getLocalPathState(localSourcePath);
@@ -1105,47 +3141,174 @@ export class CommandManager {
             return;
         }
 
-        await this.runExternalCommand('ssh', [
-            sshTarget,
+        await this.runExternalCommand('ssh', [
+            sshTarget,
+            `mkdir -p ${this.quoteShell(path.posix.dirname(remoteDestinationPath))} && rm -rf ${this.quoteShell(remoteDestinationPath)}`
+        ]);
+
+        const scpArgs: string[] = [];
+        if (sourceState === 'directory') {
+            scpArgs.push('-r');
+        }
+        scpArgs.push(localSourcePath, this.buildScpRemoteSpec(remoteEndpoint, remoteDestinationPath));
+        await this.runExternalCommand('scp', scpArgs);
+    }
+
+    private async applySshToLocal(
+        remoteEndpoint: EndpointAddress,
+        remoteSourcePath: string,
+        localDestinationPath: string
+    ): Promise<void> {
+        const sourceState = await this.getRemotePathState(remoteEndpoint, remoteSourcePath);
+
+        if (sourceState === 'missing') {
+            await fs.rm(localDestinationPath, { recursive: true, force: true });
+            return;
+        }
+
+        await fs.rm(localDestinationPath, { recursive: true, force: true });
+        await fs.mkdir(path.dirname(localDestinationPath), { recursive: true });
+
+        const scpArgs: string[] = [];
+        if (sourceState === 'directory') {
+            scpArgs.push('-r');
+        }
+        scpArgs.push(this.buildScpRemoteSpec(remoteEndpoint, remoteSourcePath), localDestinationPath);
+        await this.runExternalCommand('scp', scpArgs);
+    }
+
+    private async applyLocalToDocker(
+        localSourcePath: string,
+        remoteEndpoint: EndpointAddress,
+        remoteDestinationPath: string
+    ): Promise<void> {
+        const sourceState = await this.getLocalPathState(localSourcePath);
+        const target = this.getDockerTarget(remoteEndpoint);
+
+        if (sourceState === 'missing') {
+            await this.runEndpointShell(remoteEndpoint, `rm -rf ${this.quoteShell(remoteDestinationPath)}`);
+            return;
+        }
+
+        await this.runEndpointShell(
+            remoteEndpoint,
             `mkdir -p ${this.quoteShell(path.posix.dirname(remoteDestinationPath))} && rm -rf ${this.quoteShell(remoteDestinationPath)}`
-        ]);
+        );
+        await this.runExternalCommand(
+            'docker',
+            ['cp', localSourcePath, `${target.container}:${remoteDestinationPath}`],
+            target.environment
+        );
 
-        const scpArgs: string[] = [];
-        if (sourceState === 'directory') {
-            scpArgs.push('-r');
+        // `docker cp` writes as root; hand the copy back to the user the agent runs as
+        if (target.user) {
+            await this.runExternalCommand(
+                'docker',
+                ['exec', '-u', 'root', target.container, 'chown', '-R', target.user, remoteDestinationPath],
+                target.environment
+            );
         }
-        scpArgs.push(localSourcePath, this.buildScpRemoteSpec(remoteEndpoint, remoteDestinationPath));
-        await this.runExternalCommand('scp', scpArgs);
     }
 
-    private async applySshToLocal(
-        remoteEndpoint: MutagenEndpoint,
+    private async applyDockerToLocal(
+        remoteEndpoint: EndpointAddress,
         remoteSourcePath: string,
         localDestinationPath: string
     ): Promise<void> {
         const sourceState = await this.getRemotePathState(remoteEndpoint, remoteSourcePath);
+        const target = this.getDockerTarget(remoteEndpoint);
 
+        await fs.rm(localDestinationPath, { recursive: true, force: true });
         if (sourceState === 'missing') {
-            await fs.rm(localDestinationPath, { recursive: true, force: true });
             return;
         }
 
-        await fs.rm(localDestinationPath, { recursive: true, force: true });
         await fs.mkdir(path.dirname(localDestinationPath), { recursive: true });
+        await this.runExternalCommand(
+            'docker',
+            ['cp', `${target.container}:${remoteSourcePath}`, localDestinationPath],
+            target.environment
+        );
+    }
 
-        const scpArgs: string[] = [];
-        if (sourceState === 'directory') {
-            scpArgs.push('-r');
+    private async getEndpointPathState(
+        endpoint: EndpointAddress,
+        targetPath: string
+    ): Promise<'file' | 'directory' | 'missing'> {
+        return endpoint.protocol === 'local'
+            ? this.getLocalPathState(targetPath)
+            : this.getRemotePathState(endpoint, targetPath);
+    }
+
+    private async getEndpointPathInfo(
+        endpoint: EndpointAddress,
+        targetPath: string,
+        token?: vscode.CancellationToken
+    ): Promise<EndpointPathInfo> {
+        if (endpoint.protocol === 'local') {
+            try {
+                const stat = await fs.stat(targetPath);
+                return stat.isDirectory() ? { state: 'directory' } : { state: 'file', size: stat.size };
+            } catch (err) {
+                if ((err as NodeJS.ErrnoException).code === 'ENOENT') {
+                    return { state: 'missing' };
+                }
+                throw err;
+            }
         }
-        scpArgs.push(this.buildScpRemoteSpec(remoteEndpoint, remoteSourcePath), localDestinationPath);
-        await this.runExternalCommand('scp', scpArgs);
+
+        const quoted = this.quoteShell(targetPath);
+        const result = await this.runEndpointShell(
+            endpoint,
+            `if [ -d ${quoted} ]; then echo directory; elif [ -e ${quoted} ]; then echo "file $(wc -c < ${quoted})"; else echo missing; fi`,
+            token
+        );
+        const output = result.stdout.trim().split(/\r?\n/).pop() ?? '';
+        if (output === 'directory' || output === 'missing') {
+            return { state: output };
+        }
+
+        const size = Number.parseInt(output.replace(/^file\s+/, ''), 10);
+        if (!output.startsWith('file') || !Number.isFinite(size)) {
+            throw new Error(`Unexpected remote path state: ${output || '(empty output)'}`);
+        }
+        return { state: 'file', size };
+    }
+
+    private async getEndpointModifiedTime(endpoint: EndpointAddress, targetPath: string): Promise<number | null> {
+        if (endpoint.protocol === 'local') {
+            try {
+                return (await fs.stat(targetPath)).mtimeMs;
+            } catch (err) {
+                if ((err as NodeJS.ErrnoException).code === 'ENOENT') {
+                    return null;
+                }
+                throw err;
+            }
+        }
+
+        // GNU/BusyBox stat first, BSD stat as the fallback
+        const quoted = this.quoteShell(targetPath);
+        const result = await this.runEndpointShell(
+            endpoint,
+            `if [ -e ${quoted} ]; then stat -c %Y ${quoted} 2>/dev/null || stat -f %m ${quoted}; else echo missing; fi`
+        );
+        const output = result.stdout.trim().split(/\r?\n/).pop() ?? '';
+        if (output === 'missing') {
+            return null;
+        }
+
+        const seconds = Number.parseInt(output, 10);
+        if (!Number.isFinite(seconds)) {
+            throw new Error(`Unexpected modification time output: ${output || '(empty output)'}`);
+        }
+        return seconds * 1000;
     }
 
     private async getRemotePathState(
-        remoteEndpoint: MutagenEndpoint,
+        remoteEndpoint: EndpointAddress,
         remotePath: string
     ): Promise<'file' | 'directory' | 'missing'> {
-        const sshTarget = this.getSshTarget(remoteEndpoint);
         const checkCommand = [
             `if [ -d ${this.quoteShell(remotePath)} ]; then`,
             'echo directory',
@@ -1156,7 +3319,7 @@ export class CommandManager {
             'fi'
         ].join(' ');
 
-        const result = await this.runExternalCommand('ssh', [sshTarget, checkCommand]);
+        const result = await this.runEndpointShell(remoteEndpoint, checkCommand);
         const state = result.stdout.trim().split(/\r?\n/).pop() ?? '';
         if (state === 'directory' || state === 'file' || state === 'missing') {
             return state;
@@ -1165,6 +3328,79 @@ export class CommandManager {
         throw new Error(`Unexpected remote path state: ${state || '(empty output)'}`);
     }
 
+    /**
+     * Reads a file from any endpoint, returning null when it does not exist.
+     */
+    private async readEndpointFile(endpoint: EndpointAddress, filePath: string): Promise<string | null> {
+        if (endpoint.protocol === 'local') {
+            const state = await this.getLocalPathState(filePath);
+            if (state === 'directory') {
+                throw new Error(`Expected a file but found a directory: ${filePath}`);
+            }
+            return state === 'missing' ? null : fs.readFile(filePath, 'utf8');
+        }
+
+        const state = await this.getRemotePathState(endpoint, filePath);
+        if (state === 'directory') {
+            throw new Error(`Expected a file but found a directory: ${filePath}`);
+        }
+        if (state === 'missing') {
+            return null;
+        }
+
+        const result = await this.runEndpointShell(endpoint, `cat -- ${this.quoteShell(filePath)}`);
+        return result.stdout;
+    }
+
+    private async runEndpointShell(
+        endpoint: EndpointAddress,
+        script: string,
+        token?: vscode.CancellationToken
+    ): Promise<{ stdout: string; stderr: string }> {
+        if (endpoint.protocol === 'ssh') {
+            return this.runExternalCommand('ssh', [this.getSshTarget(endpoint), script], {}, token);
+        }
+
+        if (endpoint.protocol === 'docker') {
+            const target = this.getDockerTarget(endpoint);
+            const userArgs = target.user ? ['-u', target.user] : [];
+            return this.runExternalCommand(
+                'docker',
+                ['exec', ...userArgs, target.container, 'sh', '-c', script],
+                target.environment,
+                token
+            );
+        }
+
+        throw new Error(`Unsupported endpoint protocol: ${endpoint.protocol}`);
+    }
+
+    private getDockerTarget(endpoint: EndpointAddress): DockerTarget {
+        let container = endpoint.host?.trim() ?? '';
+        let user = endpoint.user?.trim() || undefined;
+
+        // Older Mutagen releases report `user@container` in the host field
+        const separatorIndex = container.lastIndexOf('@');
+        if (separatorIndex >= 0) {
+            user = user ?? (container.slice(0, separatorIndex) || undefined);
+            container = container.slice(separatorIndex + 1);
+        }
+
+        if (!container) {
+            throw new Error('Docker endpoint container is missing');
+        }
+
+        // Endpoints created against a non-default daemon record DOCKER_HOST and friends
+        const environment: Record<string, string> = {};
+        for (const [key, value] of Object.entries(endpoint.environment ?? {})) {
+            if (key.startsWith('DOCKER_') && typeof value === 'string') {
+                environment[key] = value;
+            }
+        }
+
+        return { container, user, environment };
+    }
+
     private async getLocalPathState(targetPath: string): Promise<'file' | 'directory' | 'missing'> {
         try {
             const stat = await fs.stat(targetPath);
@@ -1312,20 +3548,39 @@ export class CommandManager {
         remotePath: string,
         mode: 'local-to-remote' | 'remote-to-local'
     ): string {
-        const container = remoteEndpoint.host || '<container>';
+        const target = this.getDockerTarget(remoteEndpoint);
+        const exec = `docker exec${target.user ? ` -u ${this.quoteShell(target.user)}` : ''} "$CONTAINER"`;
+        const lines = [
+            ...Object.entries(target.environment).map(([key, value]) => `export ${key}=${this.quoteShell(value)}`),
+            `LOCAL=${this.quoteShell(localPath)}`,
+            `REMOTE=${this.quoteShell(remotePath)}`,
+            `CONTAINER=${this.quoteShell(target.container)}`
+        ];
+
         if (mode === 'local-to-remote') {
             return [
-                '# Docker endpoints are not auto-applied by this extension.',
-                '# Run manually:',
-                `docker cp ${this.quoteShell(localPath)} ${this.quoteShell(`${container}:${remotePath}`)}`,
-                `docker exec ${this.quoteShell(container)} rm -rf ${this.quoteShell(remotePath)} # optional when source is missing`
+                ...lines,
+                'if [ -e "$LOCAL" ]; then',
+                `  ${exec} sh -c 'mkdir -p "$(dirname "$1")" && rm -rf "$1"' sh "$REMOTE"`,
+                '  docker cp "$LOCAL" "$CONTAINER:$REMOTE"',
+                ...(target.user
+                    ? [`  docker exec -u root "$CONTAINER" chown -R ${this.quoteShell(target.user)} "$REMOTE"`]
+                    : []),
+                'else',
+                `  ${exec} rm -rf "$REMOTE"`,
+                'fi'
             ].join('\n');
         }
 
         return [
-            '# Docker endpoints are not auto-applied by this extension.',
-            '# Run manually:',
-            `docker cp ${this.quoteShell(`${container}:${remotePath}`)} ${this.quoteShell(localPath)}`
+            ...lines,
+            `if ${exec} test -e "$REMOTE"; then`,
+            '  rm -rf "$LOCAL"',
+            '  mkdir -p "$(dirname "$LOCAL")"',
+            '  docker cp "$CONTAINER:$REMOTE" "$LOCAL"',
+            'else',
+            '  rm -rf "$LOCAL"',
+            'fi'
         ].join('\n');
     }
 
@@ -1341,8 +3596,8 @@ export class CommandManager {
         }
 
         if (endpoints.remoteEndpoint.protocol === 'docker') {
-            const container = endpoints.remoteEndpoint.host || '<container>';
-            return `docker://${container}${remotePath}`;
+            const target = this.getDockerTarget(endpoints.remoteEndpoint);
+            return `docker://${target.user ? `${target.user}@` : ''}${target.container}${remotePath}`;
         }
 
         return remotePath;
@@ -1382,7 +3637,7 @@ export class CommandManager {
     private markConflictHandled(
         sessionIdentifier: string,
         conflict: Conflict,
-        direction: ConflictDirection
+        direction: ConflictResolution
     ): void {
         const signature = this.buildConflictSignature(conflict);
         const records = this.handledConflictsBySession.get(sessionIdentifier) ?? new Map<string, HandledConflictRecord>();
@@ -1392,13 +3647,39 @@ export class CommandManager {
             at: Date.now()
         });
         this.handledConflictsBySession.set(sessionIdentifier, records);
+        this.saveHandledConflicts();
+    }
+
+    private async recordConflictHistory(
+        session: MutagenSession,
+        conflictRoot: string,
+        resolution: ConflictHistoryEntry['resolution'],
+        source: ConflictHistorySource,
+        err?: unknown
+    ): Promise<void> {
+        try {
+            await this.historyService.record({
+                sessionIdentifier: session.identifier,
+                sessionName: toSessionSummary(session).name,
+                path: conflictRoot,
+                resolution,
+                source,
+                outcome: err === undefined ? 'succeeded' : 'failed',
+                error: err === undefined ? undefined : err instanceof Error ? err.message : String(err)
+            });
+        } catch (recordErr) {
+            const message = recordErr instanceof Error ? recordErr.message : String(recordErr);
+            Logger.warn(`Failed to record conflict history for ${conflictRoot}: ${message}`);
+        }
     }
 
     private pruneHandledConflictRecords(): void {
-        if (this.handledConflictsBySession.size === 0) {
+        // An empty or stale session list after a failed load must not wipe the persisted records
+        if (this.handledConflictsBySession.size === 0 || this.treeProvider.hasLoadError()) {
             return;
         }
 
+        const before = this.countHandledConflicts();
         const sessions = this.treeProvider.getSessions();
         const sessionById = new Map(sessions.map(session => [session.identifier, session]));
 
@@ -1425,10 +3706,67 @@ export class CommandManager {
                 this.handledConflictsBySession.delete(sessionIdentifier);
             }
         }
+
+        if (this.countHandledConflicts() !== before) {
+            this.saveHandledConflicts();
+        }
     }
 
     private clearHandledConflicts(sessionIdentifier: string): void {
-        this.handledConflictsBySession.delete(sessionIdentifier);
+        if (this.handledConflictsBySession.delete(sessionIdentifier)) {
+            this.saveHandledConflicts();
+        }
+    }
+
+    private countHandledConflicts(): number {
+        let count = 0;
+        for (const records of this.handledConflictsBySession.values()) {
+            count += records.size;
+        }
+        return count;
+    }
+
+    private loadHandledConflicts(): Map<string, Map<string, HandledConflictRecord>> {
+        const stored = this.workspaceState.get<unknown>(HANDLED_CONFLICTS_STATE_KEY, {});
+        const handled = new Map<string, Map<string, HandledConflictRecord>>();
+        if (!stored || typeof stored !== 'object' || Array.isArray(stored)) {
+            return handled;
+        }
+
+        for (const [sessionIdentifier, rawRecords] of Object.entries(stored as Record<string, unknown>)) {
+            if (!rawRecords || typeof rawRecords !== 'object') {
+                continue;
+            }
+
+            const records = new Map<string, HandledConflictRecord>();
+            for (const [root, rawRecord] of Object.entries(rawRecords as Record<string, unknown>)) {
+                const record = rawRecord as Partial<HandledConflictRecord> | null;
+                if (record
+                    && typeof record.signature === 'string'
+                    && isHandledConflictDirection(record.direction)
+                    && typeof record.at === 'number') {
+                    records.set(root, { direction: record.direction, signature: record.signature, at: record.at });
+                }
+            }
+
+            if (records.size > 0) {
+                handled.set(sessionIdentifier, records);
+            }
+        }
+
+        return handled;
+    }
+
+    private saveHandledConflicts(): void {
+        const serialized: Record<string, Record<string, HandledConflictRecord>> = {};
+        for (const [sessionIdentifier, records] of this.handledConflictsBySession) {
+            serialized[sessionIdentifier] = Object.fromEntries(records);
+        }
+
+        this.workspaceState.update(HANDLED_CONFLICTS_STATE_KEY, serialized).then(undefined, err => {
+            const message = err instanceof Error ? err.message : String(err);
+            Logger.warn(`Failed to persist handled conflict records: ${message}`);
+        });
     }
 
     private buildConflictSignature(conflict: Conflict): string {
@@ -1509,7 +3847,7 @@ export class CommandManager {
         return relative === '' || (!relative.startsWith('..') && !path.posix.isAbsolute(relative));
     }
 
-    private getSshTarget(endpoint: MutagenEndpoint): string {
+    private getSshTarget(endpoint: EndpointAddress): string {
         if (!endpoint.host) {
             throw new Error('SSH endpoint host is missing');
         }
@@ -1517,7 +3855,7 @@ export class CommandManager {
         return endpoint.user ? `${endpoint.user}@${endpoint.host}` : endpoint.host;
     }
 
-    private buildScpRemoteSpec(endpoint: MutagenEndpoint, remotePath: string): string {
+    private buildScpRemoteSpec(endpoint: EndpointAddress, remotePath: string): string {
         return `${this.getSshTarget(endpoint)}:${this.quoteShell(remotePath)}`;
     }
 
@@ -1525,25 +3863,41 @@ export class CommandManager {
         return `'${value.replace(/'/g, `'\"'\"'`)}'`;
     }
 
-    private async runExternalCommand(command: string, args: string[]): Promise<{ stdout: string; stderr: string }> {
-        Logger.debug(`Executing external command: ${command} ${args.join(' ')}`);
+    private async runExternalCommand(
+        command: string,
+        args: string[],
+        environment: Record<string, string> = {},
+        token?: vscode.CancellationToken
+    ): Promise<{ stdout: string; stderr: string }> {
+        const commandLine = `${command} ${args.join(' ')}`;
+        if (token?.isCancellationRequested) {
+            throw new CommandCancelledError(`Cancelled: ${commandLine}`);
+        }
+
+        Logger.debug(`Executing external command: ${commandLine}`);
         return new Promise((resolve, reject) => {
             const proc = cp.spawn(command, args, {
-                env: { ...globalThis.process.env }
+                env: { ...globalThis.process.env, ...environment }
+            });
+            const cancellation = token?.onCancellationRequested(() => {
+                reject(new CommandCancelledError(`Cancelled: ${commandLine}`));
+                proc.kill();
             });
 
-            let stdout = '';
-            let stderr = '';
+            // Collect raw chunks so multi-byte characters split across reads decode correctly
+            const stdoutChunks: Buffer[] = [];
+            const stderrChunks: Buffer[] = [];
 
-            proc.stdout.on('data', data => {
-                stdout += data.toString();
+            proc.stdout.on('data', (data: Buffer) => {
+                stdoutChunks.push(data);
             });
 
-            proc.stderr.on('data', data => {
-                stderr += data.toString();
+            proc.stderr.on('data', (data: Buffer) => {
+                stderrChunks.push(data);
             });
 
             proc.on('error', err => {
+                cancellation?.dispose();
                 const code = (err as NodeJS.ErrnoException).code;
                 if (code === 'ENOENT') {
                     reject(new Error(`Command not found: ${command}`));
@@ -1553,21 +3907,26 @@ export class CommandManager {
             });
 
             proc.on('close', code => {
+                cancellation?.dispose();
+                const stdout = Buffer.concat(stdoutChunks).toString('utf8');
+                const stderr = Buffer.concat(stderrChunks).toString('utf8');
                 if (code === 0) {
                     resolve({ stdout, stderr });
                     return;
                 }
 
                 const message = stderr.trim() || stdout.trim() || `${command} failed with code ${code}`;
-                reject(new Error(message));
+                reject(classifyMutagenError(message));
             });
         });
     }
 
     private pickSyncMode(
         placeHolder: string,
-        currentMode: NonNullable<CreateSessionOptions['mode']>
+        currentMode: NonNullable<CreateSessionOptions['mode']>,
+        localIsAlpha = true
     ): Thenable<SyncModeQuickPickItem | undefined> {
+        const [alphaSide, betaSide] = localIsAlpha ? ['Local', 'Remote'] : ['Remote', 'Local'];
         const items: SyncModeQuickPickItem[] = [
             {
                 label: 'Two-Way Safe',
@@ -1577,17 +3936,17 @@ export class CommandManager {
             {
                 label: 'Two-Way Resolved',
                 value: 'two-way-resolved',
-                description: 'Bidirectional sync, conflicts auto-resolved by Local (Alpha wins)'
+                description: `Bidirectional sync, conflicts auto-resolved by ${alphaSide} (Alpha wins)`
             },
             {
                 label: 'One-Way Safe',
                 value: 'one-way-safe',
-                description: 'Local → Remote only (Alpha → Beta), safe mode'
+                description: `${alphaSide} → ${betaSide} only (Alpha → Beta), safe mode`
             },
             {
                 label: 'One-Way Replica',
                 value: 'one-way-replica',
-                description: 'Local → Remote only (Alpha → Beta), mirror mode'
+                description: `${alphaSide} → ${betaSide} only (Alpha → Beta), mirror mode`
             }
         ];
 
@@ -1627,6 +3986,221 @@ export class CommandManager {
         });
     }
 
+    /**
+     * Optional wizard step for the less common Mutagen options.
+     * Resolves to an empty object when defaults are kept and undefined on cancel.
+     */
+    private async pickAdvancedOptions(): Promise<AdvancedSessionOptions | undefined> {
+        const choices: OptionChoiceQuickPickItem[] = [
+            {
+                label: 'Use Mutagen Defaults',
+                value: 'defaults',
+                description: 'Permissions, staging, scanning and watching use Mutagen defaults'
+            },
+            {
+                label: 'Configure Advanced Options...',
+                value: 'configure',
+                description: 'Permissions, scan/stage/probe modes, limits and alpha/beta overrides'
+            }
+        ];
+
+        const selected = await vscode.window.showQuickPick(choices, {
+            placeHolder: 'Advanced session options',
+            ignoreFocusOut: true
+        });
+
+        if (!selected) {
+            return undefined;
+        }
+
+        if (selected.value === 'defaults') {
+            return {};
+        }
+
+        return this.showAdvancedOptionsEditor('Advanced session options', {});
+    }
+
+    private async showAdvancedOptionsEditor(
+        title: string,
+        defaults: AdvancedSessionOptions,
+        localIsAlpha = true
+    ): Promise<AdvancedSessionOptions | undefined> {
+        const [alphaSide, betaSide] = localIsAlpha ? ['Local', 'Remote'] : ['Remote', 'Local'];
+        const draft: AdvancedSessionOptions = {
+            ...defaults,
+            alpha: { ...defaults.alpha },
+            beta: { ...defaults.beta }
+        };
+
+        while (true) {
+            const items: AdvancedOptionQuickPickItem[] = [
+                ...this.getAdvancedOptionItems(draft, ADVANCED_OPTION_FIELDS),
+                {
+                    label: `$(arrow-right) Alpha (${alphaSide}) Overrides`,
+                    description: this.describeOverrideCount(draft.alpha),
+                    value: 'alpha'
+                },
+                {
+                    label: `$(arrow-right) Beta (${betaSide}) Overrides`,
+                    description: this.describeOverrideCount(draft.beta),
+                    value: 'beta'
+                },
+                { label: '$(check) Done', value: 'done' },
+                { label: '$(close) Cancel', value: 'cancel' }
+            ];
+
+            const selected = await vscode.window.showQuickPick(items, {
+                placeHolder: title,
+                ignoreFocusOut: true,
+                matchOnDescription: true
+            });
+
+            if (!selected || selected.value === 'cancel') {
+                return undefined;
+            }
+
+            if (selected.value === 'done') {
+                return this.compactAdvancedOptions(draft);
+            }
+
+            if (selected.value === 'alpha' || selected.value === 'beta') {
+                const side = selected.value;
+                draft[side] = await this.showEndpointOverridesEditor(side, draft[side] ?? {}, localIsAlpha);
+                continue;
+            }
+
+            const field = ADVANCED_OPTION_FIELDS.find(candidate => candidate.key === selected.value);
+            if (field) {
+                await this.editAdvancedOption(field, draft as Record<string, unknown>);
+            }
+        }
+    }
+
+    private async showEndpointOverridesEditor(
+        side: 'alpha' | 'beta',
+        defaults: EndpointSessionOptions,
+        localIsAlpha = true
+    ): Promise<EndpointSessionOptions> {
+        const draft: EndpointSessionOptions = { ...defaults };
+        const fields = ADVANCED_OPTION_FIELDS.filter(field => field.perEndpoint);
+        const isLocal = (side === 'alpha') === localIsAlpha;
+        const sideLabel = `${side === 'alpha' ? 'Alpha' : 'Beta'} (${isLocal ? 'Local' : 'Remote'})`;
+
+        while (true) {
+            const items: AdvancedOptionQuickPickItem[] = [
+                ...this.getAdvancedOptionItems(draft, fields),
+                { label: '$(arrow-left) Back', value: 'done' }
+            ];
+
+            const selected = await vscode.window.showQuickPick(items, {
+                placeHolder: `${sideLabel} overrides (take precedence over session-wide values)`,
+                ignoreFocusOut: true,
+                matchOnDescription: true
+            });
+
+            if (!selected || selected.value === 'done') {
+                return draft;
+            }
+
+            const field = fields.find(candidate => candidate.key === selected.value);
+            if (field) {
+                await this.editAdvancedOption(field, draft as Record<string, unknown>);
+            }
+        }
+    }
+
+    private getAdvancedOptionItems(
+        options: EndpointSessionOptions | AdvancedSessionOptions,
+        fields: readonly AdvancedOptionField[]
+    ): AdvancedOptionQuickPickItem[] {
+        const values = options as Record<string, unknown>;
+        return fields
+            .filter(field => !field.capability || this.service.hasCapability(field.capability))
+            .map(field => ({
+                label: `$(settings) ${field.label}`,
+                description: values[field.key] !== undefined ? String(values[field.key]) : '(default)',
+                value: field.key
+            }));
+    }
+
+    private async editAdvancedOption(field: AdvancedOptionField, target: Record<string, unknown>): Promise<void> {
+        const current = target[field.key];
+
+        if (field.choices) {
+            const items: OptionChoiceQuickPickItem[] = [
+                { label: 'Default', value: undefined, description: 'Use Mutagen default' },
+                ...field.choices.map(choice => ({ label: choice, value: choice }))
+            ];
+            const active = items.find(item => item.value === current);
+            const selected = await vscode.window.showQuickPick(items, {
+                placeHolder: `Select ${field.label.toLowerCase()}`,
+                ignoreFocusOut: true,
+                ...(active ? { activeItem: active } : {})
+            });
+
+            if (selected) {
+                target[field.key] = selected.value;
+            }
+            return;
+        }
+
+        const input = await vscode.window.showInputBox({
+            prompt: `${field.label} (leave empty for Mutagen default)`,
+            placeHolder: field.placeHolder,
+            value: current !== undefined ? String(current) : '',
+            ignoreFocusOut: true,
+            validateInput: value => {
+                const trimmed = value.trim();
+                if (!trimmed) {
+                    return null;
+                }
+                if (field.numeric && !/^[1-9]\d*$/.test(trimmed)) {
+                    return 'Enter a positive whole number';
+                }
+                if (field.pattern && !field.pattern.test(trimmed)) {
+                    return field.patternHint ?? 'Invalid value';
+                }
+                return null;
+            }
+        });
+
+        if (input === undefined) {
+            return;
+        }
+
+        const trimmed = input.trim();
+        if (!trimmed) {
+            target[field.key] = undefined;
+        } else {
+            target[field.key] = field.numeric ? Number(trimmed) : trimmed;
+        }
+    }
+
+    private describeOverrideCount(options: EndpointSessionOptions | undefined): string {
+        const count = Object.values(options ?? {}).filter(value => value !== undefined).length;
+        return count > 0 ? `${count} override${count === 1 ? '' : 's'}` : '(none)';
+    }
+
+    private compactAdvancedOptions(options: AdvancedSessionOptions): AdvancedSessionOptions {
+        const compact = (value: object) => Object.fromEntries(
+            Object.entries(value).filter(([, item]) => item !== undefined)
+        );
+
+        const { alpha, beta, ...shared } = options;
+        const result: AdvancedSessionOptions = compact(shared);
+        const compactAlpha = compact(alpha ?? {});
+        const compactBeta = compact(beta ?? {});
+
+        if (Object.keys(compactAlpha).length > 0) {
+            result.alpha = compactAlpha;
+        }
+        if (Object.keys(compactBeta).length > 0) {
+            result.beta = compactBeta;
+        }
+
+        return result;
+    }
+
     private async pickLocalPathForRecreate(defaultLocalPath: string): Promise<string | undefined> {
         const choices: LocalPathChoiceQuickPickItem[] = [
             {
@@ -1675,7 +4249,9 @@ export class CommandManager {
     ): Promise<SessionConfigDraft | undefined> {
         const draft: SessionConfigDraft = {
             ...defaults,
-            sessionIgnorePaths: [...defaults.sessionIgnorePaths]
+            sessionIgnorePaths: [...defaults.sessionIgnorePaths],
+            labels: { ...defaults.labels },
+            advancedOptions: { ...defaults.advancedOptions }
         };
 
         while (true) {
@@ -1735,7 +4311,7 @@ export class CommandManager {
             }
 
             if (selected.value === 'editMode') {
-                const syncMode = await this.pickSyncMode('Select sync mode', draft.mode);
+                const syncMode = await this.pickSyncMode('Select sync mode', draft.mode, draft.localIsAlpha);
                 if (syncMode) {
                     draft.mode = syncMode.value;
                 }
@@ -1763,6 +4339,32 @@ export class CommandManager {
                 if (ignorePathsInput !== undefined) {
                     draft.sessionIgnorePaths = this.parseIgnorePatterns(ignorePathsInput);
                 }
+                continue;
+            }
+
+            if (selected.value === 'editLabels') {
+                const labelsInput = await vscode.window.showInputBox({
+                    prompt: 'Session labels (comma-separated key=value, optional)',
+                    value: formatLabels(draft.labels),
+                    placeHolder: 'team=ml, env=dev',
+                    validateInput: value => this.validateLabelsInput(value)
+                });
+
+                if (labelsInput !== undefined) {
+                    draft.labels = this.parseLabelsInput(labelsInput);
+                }
+                continue;
+            }
+
+            if (selected.value === 'editAdvanced') {
+                const advancedOptions = await this.showAdvancedOptionsEditor(
+                    'Advanced session options',
+                    draft.advancedOptions,
+                    draft.localIsAlpha
+                );
+                if (advancedOptions) {
+                    draft.advancedOptions = advancedOptions;
+                }
             }
         }
     }
@@ -1807,6 +4409,16 @@ export class CommandManager {
                 description: ignorePathsDisplay,
                 value: 'editIgnorePaths'
             },
+            {
+                label: '$(tag) Labels',
+                description: formatLabels(draft.labels) || '(none)',
+                value: 'editLabels'
+            },
+            {
+                label: '$(tools) Advanced Options',
+                description: this.describeAdvancedOptions(draft.advancedOptions) || '(defaults)',
+                value: 'editAdvanced'
+            },
             {
                 label: '$(check) Apply Changes',
                 // detail: 'Apply the configuration above and recreate this session',
@@ -1819,6 +4431,56 @@ export class CommandManager {
         ];
     }
 
+    private getAdvancedOptionEntries(options: AdvancedSessionOptions): Map<string, string> {
+        const { alpha, beta, ...shared } = options;
+        const entries = new Map<string, string>();
+        const collect = (values: object, suffix: string) => {
+            for (const [key, value] of Object.entries(values)) {
+                if (value !== undefined) {
+                    entries.set(`${key}${suffix}`, String(value));
+                }
+            }
+        };
+
+        collect(shared, '');
+        collect(alpha ?? {}, ' (alpha)');
+        collect(beta ?? {}, ' (beta)');
+        return entries;
+    }
+
+    private describeAdvancedOptions(options: AdvancedSessionOptions): string {
+        return Array.from(this.getAdvancedOptionEntries(options))
+            .map(([key, value]) => `${key}=${value}`)
+            .join(', ');
+    }
+
+    private describeSessionConfigChanges(before: SessionConfigDraft, after: SessionConfigDraft): string[] {
+        const changes: string[] = [];
+        const compare = (label: string, previous: string, next: string) => {
+            if (previous !== next) {
+                changes.push(`${label}: ${previous} → ${next}`);
+            }
+        };
+        const formatList = (values: string[]) => values.length > 0 ? values.join(', ') : '(none)';
+
+        compare('Name', before.name.trim() || '(unnamed)', after.name.trim() || '(unnamed)');
+        compare('Local Folder', before.localPath, after.localPath);
+        compare('Remote Path', before.remotePath, after.remotePath);
+        compare('Sync Mode', this.getSyncModeLabel(before.mode), this.getSyncModeLabel(after.mode));
+        compare('VCS Ignore', this.getIgnoreVcsLabel(before.ignoreVcs), this.getIgnoreVcsLabel(after.ignoreVcs));
+        compare('Ignore Patterns', formatList(before.sessionIgnorePaths), formatList(after.sessionIgnorePaths));
+
+        compare('Labels', formatLabels(before.labels) || '(none)', formatLabels(after.labels) || '(none)');
+
+        const previousOptions = this.getAdvancedOptionEntries(before.advancedOptions);
+        const nextOptions = this.getAdvancedOptionEntries(after.advancedOptions);
+        for (const key of new Set([...previousOptions.keys(), ...nextOptions.keys()])) {
+            compare(key, previousOptions.get(key) ?? '(default)', nextOptions.get(key) ?? '(default)');
+        }
+
+        return changes;
+    }
+
     private getSyncModeLabel(mode: NonNullable<CreateSessionOptions['mode']>): string {
         switch (mode) {
             case 'two-way-safe':
@@ -1854,15 +4516,22 @@ export class CommandManager {
             return null;
         }
 
-        const remote = session.alpha.protocol === 'local' ? session.beta : session.alpha;
+        const localIsAlpha = session.alpha.protocol === 'local';
+        const remote = localIsAlpha ? session.beta : session.alpha;
+        // The correlation label is regenerated for every created session
+        const labels = getUserLabels(session.labels);
 
         return {
             localPath: local.path,
             remotePath: this.formatRemoteEndpoint(remote),
             name: session.name,
-            mode: 'two-way-safe',
+            mode: session.mode ?? 'two-way-safe',
             ignoreVcs: session.ignore.vcs ?? false,
-            sessionIgnorePaths: session.ignore.paths ?? []
+            sessionIgnorePaths: session.ignore.paths ?? [],
+            labels,
+            advancedOptions: extractAdvancedOptions(session),
+            localIsAlpha,
+            paused: session.paused
         };
     }
 
@@ -1909,6 +4578,18 @@ export class CommandManager {
         return remotePath;
     }
 
+    /**
+     * Normalize a forwarding endpoint. Local targets such as "tcp:localhost:8888"
+     * have no host part and pass through; remote ones get the default user like sync paths.
+     */
+    private normalizeForwardDestination(destination: string): string {
+        if (/^(?:tcp[46]?|unix|npipe):/.test(destination)) {
+            return destination;
+        }
+
+        return this.normalizeRemotePath(destination);
+    }
+
     private resolveWorkspaceFolderPath(localPath: string): string {
         const workspaceFolder = getWorkspaceFolderForPath(localPath);
         if (workspaceFolder) {
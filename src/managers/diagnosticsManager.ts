@@ -0,0 +1,115 @@
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { MutagenSession, getSessionProblems, toSessionSummary } from '../models/session';
+import { SessionsTreeDataProvider } from '../providers/sessionsTreeDataProvider';
+
+/**
+ * Mirrors conflicts and scan/transition problems into the Problems panel.
+ * Diagnostics are rebuilt from scratch on every tree change, so entries
+ * disappear as soon as Mutagen stops reporting them.
+ */
+export class DiagnosticsManager implements vscode.Disposable {
+    private readonly collection: vscode.DiagnosticCollection;
+    private readonly subscription: vscode.Disposable;
+
+    constructor(treeProvider: SessionsTreeDataProvider) {
+        this.collection = vscode.languages.createDiagnosticCollection('mutagen');
+        this.subscription = treeProvider.onDidChangeSessions(sessions => this.update(sessions));
+        this.update(treeProvider.getSessions());
+    }
+
+    update(sessions: MutagenSession[]): void {
+        const diagnosticsByPath = new Map<string, vscode.Diagnostic[]>();
+        const add = (filePath: string, diagnostic: vscode.Diagnostic) => {
+            const entries = diagnosticsByPath.get(filePath) ?? [];
+            entries.push(diagnostic);
+            diagnosticsByPath.set(filePath, entries);
+        };
+
+        for (const session of sessions) {
+            const localRoot = this.getLocalRoot(session);
+            if (!localRoot) {
+                continue;
+            }
+
+            const sessionName = toSessionSummary(session).name;
+
+            for (const conflict of session.conflicts ?? []) {
+                const filePath = this.resolveLocalPath(localRoot, conflict.root);
+                if (!filePath) {
+                    continue;
+                }
+
+                const alphaChanges = conflict.alphaChanges?.length ?? 0;
+                const betaChanges = conflict.betaChanges?.length ?? 0;
+                add(filePath, this.createDiagnostic(
+                    `Sync conflict in session "${sessionName}" (alpha changes: ${alphaChanges}, beta changes: ${betaChanges})`,
+                    vscode.DiagnosticSeverity.Warning,
+                    'conflict'
+                ));
+            }
+
+            for (const problem of getSessionProblems(session)) {
+                const filePath = this.resolveLocalPath(localRoot, problem.path);
+                if (!filePath) {
+                    continue;
+                }
+
+                add(filePath, this.createDiagnostic(
+                    `${problem.kind === 'scan' ? 'Scan' : 'Transition'} problem on ${problem.side} endpoint of "${sessionName}": ${problem.error}`,
+                    vscode.DiagnosticSeverity.Error,
+                    `${problem.kind}-problem`
+                ));
+            }
+        }
+
+        this.collection.clear();
+        this.collection.set(
+            Array.from(diagnosticsByPath, ([filePath, diagnostics]) => [vscode.Uri.file(filePath), diagnostics])
+        );
+    }
+
+    private createDiagnostic(
+        message: string,
+        severity: vscode.DiagnosticSeverity,
+        code: string
+    ): vscode.Diagnostic {
+        // Mutagen reports whole paths, so anchor each entry at the top of the file
+        const diagnostic = new vscode.Diagnostic(new vscode.Range(0, 0, 0, 0), message, severity);
+        diagnostic.source = 'Mutagen';
+        diagnostic.code = code;
+        return diagnostic;
+    }
+
+    private getLocalRoot(session: MutagenSession): string | null {
+        if (session.alpha.protocol === 'local') {
+            return path.resolve(session.alpha.path);
+        }
+
+        if (session.beta.protocol === 'local') {
+            return path.resolve(session.beta.path);
+        }
+
+        return null;
+    }
+
+    private resolveLocalPath(localRoot: string, relativePath: string): string | null {
+        const segments = relativePath
+            .replace(/\\/g, '/')
+            .split('/')
+            .filter(segment => segment.length > 0 && segment !== '.');
+        const targetPath = path.resolve(localRoot, ...segments);
+        const relative = path.relative(localRoot, targetPath);
+
+        // Never publish diagnostics outside the session's local endpoint
+        if (relative.startsWith('..') || path.isAbsolute(relative)) {
+            return null;
+        }
+        return targetPath;
+    }
+
+    dispose(): void {
+        this.subscription.dispose();
+        this.collection.dispose();
+    }
+}
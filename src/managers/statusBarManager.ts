@@ -1,8 +1,6 @@
 import * as vscode from 'vscode';
 import { MutagenSession, StagingProgress, formatFileSize } from '../models/session';
-import { MutagenService } from '../services/mutagenService';
 import { isPathInCurrentWorkspace } from '../utils/config';
-import { Logger } from '../utils/logger';
 
 interface TransferStats {
     bytesTransferred: number;
@@ -25,18 +23,11 @@ export class StatusBarManager {
     private static readonly RATE_SAMPLE_INTERVAL_MS = 500;
     private statusBarItem: vscode.StatusBarItem;
     private transferItem: vscode.StatusBarItem;
-    private service: MutagenService;
-    private refreshInterval: NodeJS.Timeout | null = null;
-    private monitors: Map<string, { stop: () => void }> = new Map();
     private workspaceRates: Map<string, DirectionalRateState> = new Map();
-    private workspaceSessionIds: Set<string> = new Set();
-    private sessionCache: Map<string, MutagenSession> = new Map();
     private lastStats: Map<string, TransferStats> = new Map();
     private enabled = true;
 
     constructor(context: vscode.ExtensionContext) {
-        this.service = MutagenService.getInstance();
-
         this.statusBarItem = vscode.window.createStatusBarItem(
             vscode.StatusBarAlignment.Left,
             100
@@ -63,25 +54,7 @@ export class StatusBarManager {
         } else {
             this.statusBarItem.hide();
             this.transferItem.hide();
-            this.stopWorkspaceMonitoring();
-        }
-    }
-
-    startAutoRefresh(onRefresh: () => void): void {
-        this.stopAutoRefresh();
-
-        const config = vscode.workspace.getConfiguration('mutagen');
-        const interval = config.get<number>('refreshInterval', 5000);
-
-        this.refreshInterval = setInterval(() => {
-            onRefresh();
-        }, interval);
-    }
-
-    stopAutoRefresh(): void {
-        if (this.refreshInterval) {
-            clearInterval(this.refreshInterval);
-            this.refreshInterval = null;
+            this.workspaceRates.clear();
         }
     }
 
@@ -90,10 +63,8 @@ export class StatusBarManager {
             return;
         }
 
-        this.cacheSessions(sessions);
-
         if (sessions.length === 0) {
-            this.stopWorkspaceMonitoring();
+            this.workspaceRates.clear();
             this.setStatusText('No sessions');
             this.statusBarItem.tooltip = 'No sync sessions active';
             this.transferItem.hide();
@@ -102,13 +73,15 @@ export class StatusBarManager {
 
         const workspaceSessions = sessions.filter(session => this.isSessionInCurrentWorkspace(session));
         if (workspaceSessions.length > 0) {
-            this.ensureWorkspaceMonitoring(workspaceSessions);
-            this.normalizeWorkspaceRates(workspaceSessions);
+            this.pruneWorkspaceRates(workspaceSessions);
+            for (const session of workspaceSessions) {
+                this.updateWorkspaceRate(session);
+            }
             this.updateWorkspaceStatus(workspaceSessions);
             return;
         }
 
-        this.stopWorkspaceMonitoring();
+        this.workspaceRates.clear();
         this.updateGlobalStatus(sessions);
     }
 
@@ -186,68 +159,17 @@ export class StatusBarManager {
         this.transferItem.hide();
     }
 
-    private ensureWorkspaceMonitoring(sessions: MutagenSession[]): void {
+    private pruneWorkspaceRates(sessions: MutagenSession[]): void {
         const targetSessionIds = new Set(sessions.map(session => session.identifier));
 
-        for (const [identifier, monitor] of this.monitors) {
-            if (targetSessionIds.has(identifier)) {
-                continue;
+        for (const identifier of this.workspaceRates.keys()) {
+            if (!targetSessionIds.has(identifier)) {
+                this.workspaceRates.delete(identifier);
             }
-
-            monitor.stop();
-            this.monitors.delete(identifier);
-            this.workspaceRates.delete(identifier);
         }
-
-        for (const session of sessions) {
-            const existingRate = this.workspaceRates.get(session.identifier);
-            if (existingRate) {
-                existingRate.isLocalAlpha = this.isLocalAlpha(session);
-                this.workspaceRates.set(session.identifier, existingRate);
-            } else {
-                this.workspaceRates.set(session.identifier, this.createRateState(session));
-            }
-
-            if (this.monitors.has(session.identifier)) {
-                continue;
-            }
-
-            const monitor = this.service.startMonitor(
-                session.identifier,
-                (updatedSession) => this.handleWorkspaceMonitorUpdate(updatedSession),
-                (error) => {
-                    Logger.warn(`Monitor error for session ${session.identifier}: ${error.message}`);
-                    this.monitors.delete(session.identifier);
-                    const state = this.workspaceRates.get(session.identifier);
-                    if (state) {
-                        state.uploadRate = 0;
-                        state.downloadRate = 0;
-                        this.workspaceRates.set(session.identifier, state);
-                    }
-                }
-            );
-
-            this.monitors.set(session.identifier, monitor);
-        }
-
-        this.workspaceSessionIds = targetSessionIds;
     }
 
-    private handleWorkspaceMonitorUpdate(session: MutagenSession): void {
-        if (!this.workspaceSessionIds.has(session.identifier)) {
-            return;
-        }
-
-        this.sessionCache.set(session.identifier, session);
-        this.updateWorkspaceRateFromMonitor(session);
-
-        const workspaceSessions = this.getWorkspaceSessionsFromCache();
-        if (workspaceSessions.length > 0) {
-            this.updateWorkspaceStatus(workspaceSessions);
-        }
-    }
-
-    private updateWorkspaceRateFromMonitor(session: MutagenSession): void {
+    private updateWorkspaceRate(session: MutagenSession): void {
         const now = Date.now();
         const currentReceivedSize = this.getStagingReceivedSize(session);
         const rateState = this.workspaceRates.get(session.identifier) ?? this.createRateState(session);
@@ -301,31 +223,6 @@ export class StatusBarManager {
         this.workspaceRates.set(session.identifier, rateState);
     }
 
-    private normalizeWorkspaceRates(sessions: MutagenSession[]): void {
-        const now = Date.now();
-
-        for (const session of sessions) {
-            const existing = this.workspaceRates.get(session.identifier) ?? this.createRateState(session);
-            const direction = this.resolveTransferDirection(session, existing.isLocalAlpha);
-            const currentReceivedSize = this.getStagingReceivedSize(session);
-
-            if (!direction) {
-                existing.uploadRate = 0;
-                existing.downloadRate = 0;
-            }
-
-            if (typeof currentReceivedSize === 'number') {
-                if (!existing.hasSample || currentReceivedSize < existing.lastReceivedSize) {
-                    existing.lastReceivedSize = currentReceivedSize;
-                    existing.lastTimestamp = now;
-                    existing.hasSample = true;
-                }
-            }
-
-            this.workspaceRates.set(session.identifier, existing);
-        }
-    }
-
     private aggregateWorkspaceRates(sessions: MutagenSession[]): { uploadRate: number; downloadRate: number } {
         let uploadRate = 0;
         let downloadRate = 0;
@@ -409,35 +306,6 @@ export class StatusBarManager {
         return session.alpha.protocol === 'local';
     }
 
-    private getWorkspaceSessionsFromCache(): MutagenSession[] {
-        const workspaceSessions: MutagenSession[] = [];
-
-        for (const identifier of this.workspaceSessionIds) {
-            const session = this.sessionCache.get(identifier);
-            if (session) {
-                workspaceSessions.push(session);
-            }
-        }
-
-        return workspaceSessions;
-    }
-
-    private cacheSessions(sessions: MutagenSession[]): void {
-        this.sessionCache.clear();
-        for (const session of sessions) {
-            this.sessionCache.set(session.identifier, session);
-        }
-    }
-
-    private stopWorkspaceMonitoring(): void {
-        for (const monitor of this.monitors.values()) {
-            monitor.stop();
-        }
-        this.monitors.clear();
-        this.workspaceRates.clear();
-        this.workspaceSessionIds.clear();
-    }
-
     private updateTransferRate(sessions: MutagenSession[]): void {
         const syncingSessions = sessions.filter(s => this.getStagingExpectedSize(s) > 0);
 
@@ -535,7 +403,6 @@ export class StatusBarManager {
     }
 
     dispose(): void {
-        this.stopAutoRefresh();
-        this.stopWorkspaceMonitoring();
+        this.workspaceRates.clear();
     }
 }
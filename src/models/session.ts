@@ -3,11 +3,13 @@
  * Based on mutagen sync list --template '{{json .}}' output
  */
 
-export interface MutagenEndpoint {
+export interface MutagenEndpoint extends EndpointConfiguration {
     protocol: 'local' | 'ssh' | 'docker';
     host?: string;
     user?: string;
     path: string;
+    // Set for docker endpoints created against a non-default daemon (DOCKER_HOST, DOCKER_CONTEXT, ...)
+    environment?: Record<string, string>;
     connected: boolean;
     scanned: boolean;
     directories: number;
@@ -19,6 +21,9 @@ export interface MutagenEndpoint {
     stagingProgress?: StagingProgress;
 }
 
+// The parts of an endpoint needed to reach it with ssh, docker or the local filesystem
+export type EndpointAddress = Pick<MutagenEndpoint, 'protocol' | 'host' | 'user' | 'environment'>;
+
 export interface ScanProblem {
     path: string;
     error: string;
@@ -30,6 +35,7 @@ export interface TransitionProblem {
 }
 
 export interface IgnoreConfig {
+    syntax?: string;
     paths?: string[];
     vcs?: boolean;
 }
@@ -55,6 +61,16 @@ export interface CompressionConfig {
     algorithm?: 'none' | 'deflate' | 'zstandard';
 }
 
+// Endpoint-specific configuration Mutagen reports alongside each endpoint's state
+export interface EndpointConfiguration {
+    probeMode?: string;
+    scanMode?: string;
+    stageMode?: string;
+    maxStagingFileSize?: number;
+    watch?: WatchConfig;
+    permissions?: PermissionsConfig;
+}
+
 export interface ConflictEntry {
     kind: string;
     digest?: string;
@@ -97,6 +113,13 @@ export interface MutagenSession {
     creatingVersion: string;
     alpha: MutagenEndpoint;
     beta: MutagenEndpoint;
+    // Session-wide configuration; Mutagen omits values left at their defaults
+    mode?: CreateSessionOptions['mode'];
+    maxEntryCount?: number;
+    maxStagingFileSize?: number;
+    probeMode?: string;
+    scanMode?: string;
+    stageMode?: string;
     ignore: IgnoreConfig;
     symlink: SymlinkConfig;
     watch: WatchConfig;
@@ -139,8 +162,61 @@ export interface DaemonStatus {
     version?: string;
 }
 
+// Parsed output of `mutagen version`
+export interface MutagenVersion {
+    major: number;
+    minor: number;
+    patch: number;
+    raw: string;
+}
+
 // Create session options
-export interface CreateSessionOptions {
+export const PERMISSIONS_MODES = ['portable', 'manual'] as const;
+export const SCAN_MODES = ['full', 'accelerated'] as const;
+export const STAGE_MODES = ['mutagen', 'neighboring', 'internal'] as const;
+export const PROBE_MODES = ['probe', 'assume'] as const;
+export const WATCH_MODES = ['portable', 'force-poll', 'no-watch'] as const;
+export const SYMLINK_MODES = ['ignore', 'portable', 'posix-raw'] as const;
+export const COMPRESSION_ALGORITHMS = ['none', 'deflate', 'zstandard'] as const;
+export const IGNORE_SYNTAXES = ['mutagen', 'docker'] as const;
+
+// Automatic conflict resolution rules, matched against the conflict root in order
+export const CONFLICT_POLICY_STRATEGIES = ['local', 'remote', 'newest', 'keep-both'] as const;
+
+export interface ConflictPolicy {
+    // Mutagen-style (gitignore-like) pattern relative to the session root
+    pattern: string;
+    strategy: typeof CONFLICT_POLICY_STRATEGIES[number];
+}
+
+// Options Mutagen accepts both session-wide and as -alpha/-beta overrides
+export interface EndpointSessionOptions {
+    // Octal permission strings, e.g. 0644 / 0755
+    defaultFileMode?: string;
+    defaultDirectoryMode?: string;
+    defaultOwner?: string;
+    defaultGroup?: string;
+    scanMode?: typeof SCAN_MODES[number];
+    stageMode?: typeof STAGE_MODES[number];
+    probeMode?: typeof PROBE_MODES[number];
+    // Human-readable size, e.g. 100MB
+    maxStagingFileSize?: string;
+    watchMode?: typeof WATCH_MODES[number];
+    // Seconds between polls in force-poll or fallback mode
+    watchPollingInterval?: number;
+}
+
+export interface AdvancedSessionOptions extends EndpointSessionOptions {
+    permissionsMode?: typeof PERMISSIONS_MODES[number];
+    maxEntryCount?: number;
+    ignoreSyntax?: typeof IGNORE_SYNTAXES[number];
+    symlinkMode?: typeof SYMLINK_MODES[number];
+    compression?: typeof COMPRESSION_ALGORITHMS[number];
+    alpha?: EndpointSessionOptions;
+    beta?: EndpointSessionOptions;
+}
+
+export interface CreateSessionOptions extends AdvancedSessionOptions {
     name?: string;
     labels?: Record<string, string>;
     paused?: boolean;
@@ -148,9 +224,67 @@ export interface CreateSessionOptions {
     // undefined keeps Mutagen's default behavior, true/false force explicit modes
     ignoreVcs?: boolean;
     ignorePaths?: string[];
-    symlinkMode?: 'ignore' | 'portable' | 'posix-raw';
-    watchMode?: 'portable' | 'force-poll' | 'no-watch';
-    compression?: 'none' | 'deflate' | 'zstandard';
+}
+
+/**
+ * Mutagen Forwarding Session Data Models
+ * Based on mutagen forward list --template '{{json .}}' output
+ */
+
+export interface MutagenForwardEndpoint {
+    protocol: 'local' | 'ssh' | 'docker';
+    host?: string;
+    user?: string;
+    port?: number;
+    // Listener/target specification, e.g. tcp:localhost:8888 or unix:/tmp/app.sock
+    endpoint: string;
+    connected: boolean;
+}
+
+export type ForwardSessionStatus =
+    | 'disconnected'
+    | 'connecting-source'
+    | 'connecting-destination'
+    | 'forwarding';
+
+export interface MutagenForwardSession {
+    identifier: string;
+    version: number;
+    creationTime: string;
+    creatingVersion: string;
+    source: MutagenForwardEndpoint;
+    destination: MutagenForwardEndpoint;
+    name: string;
+    labels?: Record<string, string>;
+    paused: boolean;
+    status: ForwardSessionStatus;
+    lastError?: string;
+    openConnections: number;
+    totalConnections: number;
+    totalOutboundData: number;
+    totalInboundData: number;
+}
+
+// Create forwarding session options
+export interface CreateForwardOptions {
+    name?: string;
+    labels?: Record<string, string>;
+    paused?: boolean;
+}
+
+// Label this extension attaches to sessions it creates so the new identifier can be resolved reliably
+export const SESSION_CORRELATION_LABEL = 'remote-mutagen-correlation-id';
+
+// Label Mutagen attaches to every session started from a project file
+export const MUTAGEN_PROJECT_LABEL = 'io.mutagen.project';
+
+export interface MutagenProject {
+    name: string;
+    // Absolute path to mutagen.yml
+    projectFile: string;
+    workspaceFolder: string;
+    // Read from mutagen.yml.lock; undefined while the project is not started
+    identifier?: string;
 }
 
 // Session summary for quick display
@@ -168,6 +302,44 @@ export interface SessionSummary {
     hasConflicts: boolean;
 }
 
+// Scan or transition problem flattened with the endpoint it was reported on
+export interface SessionProblem {
+    kind: 'scan' | 'transition';
+    side: 'local' | 'remote';
+    // Relative to the endpoint root
+    path: string;
+    error: string;
+}
+
+export function getSessionProblems(session: MutagenSession): SessionProblem[] {
+    const isAlphaLocal = session.alpha.protocol === 'local';
+    const endpoints: [MutagenEndpoint, SessionProblem['side']][] = [
+        [session.alpha, isAlphaLocal ? 'local' : 'remote'],
+        [session.beta, isAlphaLocal ? 'remote' : 'local']
+    ];
+
+    const problems: SessionProblem[] = [];
+    for (const [endpoint, side] of endpoints) {
+        for (const problem of endpoint.scanProblems ?? []) {
+            problems.push({ kind: 'scan', side, path: problem.path, error: problem.error });
+        }
+        for (const problem of endpoint.transitionProblems ?? []) {
+            problems.push({ kind: 'transition', side, path: problem.path, error: problem.error });
+        }
+    }
+    return problems;
+}
+
+// Labels set by users, without the internal correlation label added on create
+export function getUserLabels(labels: Record<string, string> | undefined): Record<string, string> {
+    const { [SESSION_CORRELATION_LABEL]: _correlationId, ...userLabels } = labels ?? {};
+    return userLabels;
+}
+
+export function formatLabels(labels: Record<string, string>): string {
+    return Object.entries(labels).map(([key, value]) => value ? `${key}=${value}` : key).join(', ');
+}
+
 export function toSessionSummary(session: MutagenSession): SessionSummary {
     const isAlphaLocal = session.alpha.protocol === 'local';
     const local = isAlphaLocal ? session.alpha : session.beta;
@@ -273,3 +445,139 @@ export function getStatusLabel(status: SessionStatus, paused: boolean): string {
             return status;
     }
 }
+
+export function formatForwardEndpoint(endpoint: MutagenForwardEndpoint): string {
+    if (endpoint.protocol === 'docker' && endpoint.host) {
+        return `docker://${endpoint.host}:${endpoint.endpoint}`;
+    }
+
+    if (endpoint.host) {
+        const host = endpoint.user ? `${endpoint.user}@${endpoint.host}` : endpoint.host;
+        const port = endpoint.port ? `:${endpoint.port}` : '';
+        return `${host}${port}:${endpoint.endpoint}`;
+    }
+
+    return endpoint.endpoint;
+}
+
+export function getForwardStatusIcon(status: ForwardSessionStatus, paused: boolean): string {
+    if (paused) {
+        return 'debug-start';
+    }
+    switch (status) {
+        case 'forwarding':
+            return 'radio-tower';
+        case 'connecting-source':
+        case 'connecting-destination':
+            return 'plug';
+        case 'disconnected':
+            return 'debug-disconnect';
+        default:
+            return 'circle-outline';
+    }
+}
+
+export function getForwardStatusLabel(status: ForwardSessionStatus, paused: boolean): string {
+    if (paused) {
+        return 'Paused';
+    }
+    switch (status) {
+        case 'forwarding':
+            return 'Forwarding';
+        case 'connecting-source':
+            return 'Connecting (source)';
+        case 'connecting-destination':
+            return 'Connecting (destination)';
+        case 'disconnected':
+            return 'Disconnected';
+        default:
+            return status;
+    }
+}
+
+/**
+ * Read back the advanced options a session was created with so it can be
+ * recreated without losing settings. Alpha/beta overrides follow the endpoints
+ * given, letting callers map them onto local/remote when recreating.
+ */
+export function extractAdvancedOptions(
+    session: MutagenSession,
+    alpha: MutagenEndpoint = session.alpha,
+    beta: MutagenEndpoint = session.beta
+): AdvancedSessionOptions {
+    const options: AdvancedSessionOptions = {
+        ...extractEndpointOptions({
+            probeMode: session.probeMode,
+            scanMode: session.scanMode,
+            stageMode: session.stageMode,
+            maxStagingFileSize: session.maxStagingFileSize,
+            watch: session.watch,
+            permissions: session.permissions
+        }),
+        permissionsMode: pickChoice(session.permissions?.mode, PERMISSIONS_MODES),
+        maxEntryCount: session.maxEntryCount || undefined,
+        ignoreSyntax: pickChoice(session.ignore?.syntax, IGNORE_SYNTAXES),
+        symlinkMode: pickChoice(session.symlink?.mode, SYMLINK_MODES),
+        compression: pickChoice(session.compression?.algorithm, COMPRESSION_ALGORITHMS)
+    };
+
+    const alphaOptions = extractEndpointOptions(alpha);
+    const betaOptions = extractEndpointOptions(beta);
+    if (Object.keys(alphaOptions).length > 0) {
+        options.alpha = alphaOptions;
+    }
+    if (Object.keys(betaOptions).length > 0) {
+        options.beta = betaOptions;
+    }
+
+    return omitUndefined(options);
+}
+
+export function parseConflictPolicies(value: unknown): ConflictPolicy[] {
+    if (!Array.isArray(value)) {
+        return [];
+    }
+
+    const policies: ConflictPolicy[] = [];
+    for (const candidate of value) {
+        if (!candidate || typeof candidate !== 'object') {
+            continue;
+        }
+
+        const record = candidate as Record<string, unknown>;
+        const pattern = typeof record.pattern === 'string' ? record.pattern.trim() : '';
+        const strategy = pickChoice(typeof record.strategy === 'string' ? record.strategy : undefined, CONFLICT_POLICY_STRATEGIES);
+        if (pattern && strategy) {
+            policies.push({ pattern, strategy });
+        }
+    }
+    return policies;
+}
+
+function extractEndpointOptions(config: EndpointConfiguration): EndpointSessionOptions {
+    return omitUndefined({
+        defaultFileMode: formatOctalMode(config.permissions?.defaultFileMode),
+        defaultDirectoryMode: formatOctalMode(config.permissions?.defaultDirectoryMode),
+        defaultOwner: config.permissions?.defaultOwner || undefined,
+        defaultGroup: config.permissions?.defaultGroup || undefined,
+        scanMode: pickChoice(config.scanMode, SCAN_MODES),
+        stageMode: pickChoice(config.stageMode, STAGE_MODES),
+        probeMode: pickChoice(config.probeMode, PROBE_MODES),
+        maxStagingFileSize: config.maxStagingFileSize ? String(config.maxStagingFileSize) : undefined,
+        watchMode: pickChoice(config.watch?.mode, WATCH_MODES),
+        watchPollingInterval: config.watch?.pollingInterval || undefined
+    });
+}
+
+// Mutagen reports "default" or omits the field for unset modes; both map to undefined
+function pickChoice<T extends string>(value: string | undefined, choices: readonly T[]): T | undefined {
+    return choices.find(choice => choice === value);
+}
+
+function formatOctalMode(mode: number | undefined): string | undefined {
+    return mode ? `0${mode.toString(8)}` : undefined;
+}
+
+function omitUndefined<T extends object>(value: T): T {
+    return Object.fromEntries(Object.entries(value).filter(([, item]) => item !== undefined)) as T;
+}
@@ -1,5 +1,5 @@
 import * as vscode from 'vscode';
-import { MutagenSession, formatFileSize, getStatusLabel } from '../models/session';
+import { MutagenSession, formatFileSize, formatLabels, getStatusLabel, getUserLabels } from '../models/session';
 
 export class SessionDetailsPanel {
     public static currentPanel: SessionDetailsPanel | undefined;
@@ -47,6 +47,13 @@ export class SessionDetailsPanel {
         this.update();
     }
 
+    public updateFromSessions(sessions: MutagenSession[]): void {
+        const latest = sessions.find(session => session.identifier === this.session.identifier);
+        if (latest && JSON.stringify(latest) !== JSON.stringify(this.session)) {
+            this.updateSession(latest);
+        }
+    }
+
     private update(): void {
         this.panel.title = `Mutagen: ${this.session.name}`;
         this.panel.webview.html = this.getHtmlContent();
@@ -61,6 +68,7 @@ export class SessionDetailsPanel {
         const localDirectories = typeof local.directories === 'number' ? local.directories : 0;
         const localTotalSize = typeof local.totalFileSize === 'number' ? local.totalFileSize : 0;
         const successfulCycles = typeof session.successfulCycles === 'number' ? session.successfulCycles : 0;
+        const labels = getUserLabels(session.labels);
 
         const statusClass = session.paused ? 'paused' : 
             session.status === 'watching' ? 'active' : 
@@ -289,6 +297,12 @@ export class SessionDetailsPanel {
                     <span class="config-key">Watch Mode</span>
                     <span class="config-value">${session.watch.mode || 'portable'}</span>
                 </div>
+                ${Object.keys(labels).length > 0 ? `
+                <div class="config-item">
+                    <span class="config-key">Labels</span>
+                    <span class="config-value">${this.escapeHtml(formatLabels(labels))}</span>
+                </div>
+                ` : ''}
                 ${session.ignore.paths && session.ignore.paths.length > 0 ? `
                 <div class="config-item">
                     <span class="config-key">Ignore Paths</span>
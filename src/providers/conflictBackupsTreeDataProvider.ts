@@ -0,0 +1,104 @@
+import * as vscode from 'vscode';
+import { ConflictBackup, ConflictBackupService } from '../services/conflictBackupService';
+
+export type ConflictBackupTreeItemType = 'backup-session' | 'backup';
+
+export class ConflictBackupTreeItem extends vscode.TreeItem {
+    constructor(
+        public readonly label: string,
+        public readonly collapsibleState: vscode.TreeItemCollapsibleState,
+        public readonly itemType: ConflictBackupTreeItemType,
+        public readonly sessionIdentifier: string,
+        public readonly backup?: ConflictBackup
+    ) {
+        super(label, collapsibleState);
+    }
+}
+
+/**
+ * Lists conflict backups grouped by the session they were taken from, newest first.
+ */
+export class ConflictBackupsTreeDataProvider implements vscode.TreeDataProvider<ConflictBackupTreeItem>, vscode.Disposable {
+    private readonly _onDidChangeTreeData = new vscode.EventEmitter<ConflictBackupTreeItem | undefined>();
+    readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
+
+    private readonly subscription: vscode.Disposable;
+
+    constructor(private readonly backupService: ConflictBackupService) {
+        this.subscription = backupService.onDidChangeBackups(() => this._onDidChangeTreeData.fire(undefined));
+    }
+
+    getTreeItem(element: ConflictBackupTreeItem): vscode.TreeItem {
+        return element;
+    }
+
+    getChildren(element?: ConflictBackupTreeItem): ConflictBackupTreeItem[] {
+        const backups = this.backupService.listBackups();
+
+        if (!element) {
+            const sessions = new Map<string, ConflictBackup[]>();
+            for (const backup of backups) {
+                const entries = sessions.get(backup.sessionIdentifier) ?? [];
+                entries.push(backup);
+                sessions.set(backup.sessionIdentifier, entries);
+            }
+
+            return Array.from(sessions, ([sessionIdentifier, entries]) => {
+                const item = new ConflictBackupTreeItem(
+                    entries[0].sessionName,
+                    vscode.TreeItemCollapsibleState.Expanded,
+                    'backup-session',
+                    sessionIdentifier
+                );
+                item.id = `backup-session:${sessionIdentifier}`;
+                item.description = `${entries.length} backup(s)`;
+                item.tooltip = sessionIdentifier;
+                item.iconPath = new vscode.ThemeIcon('history');
+                item.contextValue = 'backup-session';
+                return item;
+            });
+        }
+
+        if (element.itemType !== 'backup-session') {
+            return [];
+        }
+
+        return backups
+            .filter(backup => backup.sessionIdentifier === element.sessionIdentifier)
+            .map(backup => this.createBackupItem(backup));
+    }
+
+    private createBackupItem(backup: ConflictBackup): ConflictBackupTreeItem {
+        const item = new ConflictBackupTreeItem(
+            backup.conflictRoot,
+            vscode.TreeItemCollapsibleState.None,
+            'backup',
+            backup.sessionIdentifier,
+            backup
+        );
+        const createdAt = new Date(backup.createdAt);
+        const location = backup.endpoint.protocol === 'local'
+            ? backup.originalPath
+            : `${backup.endpoint.protocol}://${backup.endpoint.user ? `${backup.endpoint.user}@` : ''}${backup.endpoint.host ?? ''}${backup.originalPath}`;
+
+        item.id = `backup:${backup.id}`;
+        item.description = `${backup.side} · ${createdAt.toLocaleString()}`;
+        item.tooltip = new vscode.MarkdownString(
+            `**${backup.side === 'local' ? 'Local' : 'Remote'} version** of \`${backup.conflictRoot}\`\n\n`
+            + `Overwritten at: ${location}\n\nBacked up: ${createdAt.toLocaleString()}`
+        );
+        item.iconPath = new vscode.ThemeIcon(backup.kind === 'directory' ? 'folder' : 'file');
+        item.contextValue = `backup-${backup.kind}`;
+        item.command = {
+            command: 'mutagen.diffConflictBackup',
+            title: 'Compare Backup with Current',
+            arguments: [item]
+        };
+        return item;
+    }
+
+    dispose(): void {
+        this.subscription.dispose();
+        this._onDidChangeTreeData.dispose();
+    }
+}
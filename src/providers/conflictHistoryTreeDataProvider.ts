@@ -0,0 +1,105 @@
+import * as vscode from 'vscode';
+import { ConflictHistoryEntry, ConflictHistoryService } from '../services/conflictHistoryService';
+
+const RESOLUTION_LABELS: Record<ConflictHistoryEntry['resolution'], string> = {
+    local: 'Accepted local',
+    remote: 'Accepted remote',
+    merge: 'Merged',
+    'keep-both': 'Kept both',
+    newest: 'Newest wins'
+};
+
+const SOURCE_LABELS: Record<ConflictHistoryEntry['source'], string> = {
+    accept: 'single accept',
+    'accept-all': 'accept all',
+    merge: 'merge editor',
+    policy: 'conflict policy'
+};
+
+export class ConflictHistoryTreeItem extends vscode.TreeItem {
+    constructor(public readonly entry: ConflictHistoryEntry) {
+        super(entry.path, vscode.TreeItemCollapsibleState.None);
+    }
+}
+
+/**
+ * Flat, newest-first list of recorded conflict resolutions, optionally narrowed to one session.
+ */
+export class ConflictHistoryTreeDataProvider implements vscode.TreeDataProvider<ConflictHistoryTreeItem>, vscode.Disposable {
+    private readonly _onDidChangeTreeData = new vscode.EventEmitter<ConflictHistoryTreeItem | undefined>();
+    readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
+
+    private readonly _onDidChangeFilter = new vscode.EventEmitter<string | null>();
+    readonly onDidChangeFilter = this._onDidChangeFilter.event;
+
+    private readonly subscription: vscode.Disposable;
+    private sessionFilter: string | null = null;
+
+    constructor(private readonly historyService: ConflictHistoryService) {
+        this.subscription = historyService.onDidChangeHistory(() => this._onDidChangeTreeData.fire(undefined));
+    }
+
+    getSessionFilter(): string | null {
+        return this.sessionFilter;
+    }
+
+    setSessionFilter(sessionIdentifier: string | null): void {
+        this.sessionFilter = sessionIdentifier;
+        this._onDidChangeFilter.fire(sessionIdentifier);
+        this._onDidChangeTreeData.fire(undefined);
+    }
+
+    describeFilter(): string | undefined {
+        if (!this.sessionFilter) {
+            return undefined;
+        }
+
+        const entries = this.getVisibleEntries();
+        const sessionName = entries[0]?.sessionName ?? this.sessionFilter;
+        return `Filtered by session "${sessionName}": ${entries.length} of ${this.historyService.listEntries().length} entries`;
+    }
+
+    getVisibleEntries(): ConflictHistoryEntry[] {
+        return this.historyService.listEntries(this.sessionFilter ?? undefined);
+    }
+
+    getTreeItem(element: ConflictHistoryTreeItem): vscode.TreeItem {
+        return element;
+    }
+
+    getChildren(element?: ConflictHistoryTreeItem): ConflictHistoryTreeItem[] {
+        if (element) {
+            return [];
+        }
+
+        return this.getVisibleEntries().map(entry => this.createEntryItem(entry));
+    }
+
+    private createEntryItem(entry: ConflictHistoryEntry): ConflictHistoryTreeItem {
+        const item = new ConflictHistoryTreeItem(entry);
+        const timestamp = new Date(entry.timestamp).toLocaleString();
+        const failed = entry.outcome === 'failed';
+
+        item.id = `conflict-history:${entry.id}`;
+        item.description = `${RESOLUTION_LABELS[entry.resolution] ?? entry.resolution}${failed ? ' (failed)' : ''} · ${timestamp}`;
+        item.tooltip = new vscode.MarkdownString(
+            `**${RESOLUTION_LABELS[entry.resolution] ?? entry.resolution}** for \`${entry.path}\`\n\n`
+            + `Session: ${entry.sessionName}\n\n`
+            + `Via: ${SOURCE_LABELS[entry.source] ?? entry.source}\n\n`
+            + `By: ${entry.user}\n\n`
+            + `At: ${timestamp}\n\n`
+            + `Outcome: ${entry.outcome}${entry.error ? ` — ${entry.error}` : ''}`
+        );
+        item.iconPath = failed
+            ? new vscode.ThemeIcon('error', new vscode.ThemeColor('errorForeground'))
+            : new vscode.ThemeIcon('pass', new vscode.ThemeColor('testing.iconPassed'));
+        item.contextValue = `conflict-history-${entry.outcome}`;
+        return item;
+    }
+
+    dispose(): void {
+        this.subscription.dispose();
+        this._onDidChangeFilter.dispose();
+        this._onDidChangeTreeData.dispose();
+    }
+}
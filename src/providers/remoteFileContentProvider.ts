@@ -0,0 +1,50 @@
+import * as vscode from 'vscode';
+
+/**
+ * Read-only documents holding file contents fetched from a session endpoint.
+ * Contents are pushed in by the command that fetched them and dropped again
+ * once the editor showing them is closed.
+ */
+export class RemoteFileContentProvider implements vscode.TextDocumentContentProvider, vscode.Disposable {
+    static readonly scheme = 'mutagen-remote';
+
+    private readonly _onDidChange = new vscode.EventEmitter<vscode.Uri>();
+    readonly onDidChange = this._onDidChange.event;
+
+    private readonly contents = new Map<string, string>();
+    private readonly subscription: vscode.Disposable;
+
+    constructor() {
+        this.subscription = vscode.workspace.onDidCloseTextDocument(document => {
+            if (document.uri.scheme === RemoteFileContentProvider.scheme) {
+                this.contents.delete(document.uri.toString());
+            }
+        });
+    }
+
+    createUri(sessionIdentifier: string, side: 'local' | 'remote', relativePath: string): vscode.Uri {
+        // Keeping the relative path lets VS Code pick the language mode from the file name
+        return vscode.Uri.from({
+            scheme: RemoteFileContentProvider.scheme,
+            authority: sessionIdentifier,
+            path: `/${relativePath.replace(/\\/g, '/').replace(/^\/+/, '')}`,
+            query: side
+        });
+    }
+
+    setContent(uri: vscode.Uri, content: string): void {
+        this.contents.set(uri.toString(), content);
+        this._onDidChange.fire(uri);
+    }
+
+    provideTextDocumentContent(uri: vscode.Uri): string {
+        return this.contents.get(uri.toString())
+            ?? '// Content is no longer available. Run the comparison again from the Mutagen view.';
+    }
+
+    dispose(): void {
+        this.subscription.dispose();
+        this._onDidChange.dispose();
+        this.contents.clear();
+    }
+}
@@ -2,13 +2,24 @@ import * as vscode from 'vscode';
 import * as path from 'path';
 import {
     Conflict,
+    MutagenForwardSession,
+    MutagenProject,
     MutagenSession,
+    SessionProblem,
     formatFileSize,
+    formatForwardEndpoint,
+    formatLabels,
+    getForwardStatusIcon,
+    getForwardStatusLabel,
+    getSessionProblems,
     getStatusIcon,
     getStatusLabel,
+    getUserLabels,
     toSessionSummary
 } from '../models/session';
 import { MutagenService } from '../services/mutagenService';
+import { MutagenProjectService } from '../services/projectService';
+import { SessionStateSource } from '../services/sessionStateSource';
 import { isPathInCurrentWorkspace } from '../utils/config';
 import { Logger } from '../utils/logger';
 
@@ -19,7 +30,31 @@ export type TreeItemType =
     | 'error'
     | 'loading'
     | 'conflicts-group'
-    | 'conflict-file';
+    | 'conflict-file'
+    | 'forwards-group'
+    | 'forward'
+    | 'project'
+    | 'session-group'
+    | 'problems-group'
+    | 'problem';
+
+export type SessionGroupingMode = 'none' | 'host' | 'label' | 'workspace' | 'status';
+
+const GROUPING_STATE_KEY = 'mutagen.sessionGrouping';
+
+export type SessionFilterPreset = 'errors' | 'conflicts' | 'paused' | 'active';
+
+export interface SessionFilter {
+    preset?: SessionFilterPreset;
+    // Case-insensitive match against name, host, paths, labels and status
+    text?: string;
+}
+
+interface SessionGroupingState {
+    mode: SessionGroupingMode;
+    // Label key whose values define the groups in 'label' mode
+    labelKey?: string;
+}
 
 export class SessionTreeItem extends vscode.TreeItem {
     constructor(
@@ -29,7 +64,10 @@ export class SessionTreeItem extends vscode.TreeItem {
         public readonly session?: MutagenSession,
         public readonly parent?: SessionTreeItem,
         itemId?: string,
-        public readonly conflict?: Conflict
+        public readonly conflict?: Conflict,
+        public readonly forward?: MutagenForwardSession,
+        public readonly project?: MutagenProject,
+        public readonly problem?: SessionProblem
     ) {
         super(label, collapsibleState);
         // VSCode uses `id` to preserve expand/collapse state across refreshes
@@ -39,18 +77,50 @@ export class SessionTreeItem extends vscode.TreeItem {
     }
 }
 
-export class SessionsTreeDataProvider implements vscode.TreeDataProvider<SessionTreeItem> {
+export interface NewConflictsEvent {
+    session: MutagenSession;
+    conflicts: Conflict[];
+}
+
+export class SessionsTreeDataProvider implements vscode.TreeDataProvider<SessionTreeItem>, vscode.Disposable {
     private _onDidChangeTreeData = new vscode.EventEmitter<SessionTreeItem | undefined | null>();
     readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
 
+    private _onDidChangeFilter = new vscode.EventEmitter<SessionFilter | null>();
+    readonly onDidChangeFilter = this._onDidChangeFilter.event;
+
+    // Fires with the full session list whenever the tree picks up a change
+    private _onDidChangeSessions = new vscode.EventEmitter<MutagenSession[]>();
+    readonly onDidChangeSessions = this._onDidChangeSessions.event;
+
+    // Fires once per session for conflict roots that were not reported by the previous update
+    private _onDidDetectNewConflicts = new vscode.EventEmitter<NewConflictsEvent>();
+    readonly onDidDetectNewConflicts = this._onDidDetectNewConflicts.event;
+
     private sessions: MutagenSession[] = [];
     private sessionMap = new Map<string, MutagenSession>();
+    private forwards: MutagenForwardSession[] = [];
+    private projects: MutagenProject[] = [];
     private service: MutagenService;
     private isLoading = false;
     private lastError: string | null = null;
+    private grouping: SessionGroupingState;
+    // Sessions of each group node, keyed by the group item id
+    private groupMembers = new Map<string, MutagenSession[]>();
+    private filter: SessionFilter | null = null;
+    private knownConflictRoots = new Map<string, Set<string>>();
+    // The sync monitor stream does not cover forwards, so they are polled separately
+    private forwardPollInterval: NodeJS.Timeout | null = null;
 
-    constructor() {
+    constructor(
+        private readonly stateSource: SessionStateSource,
+        private readonly projectService: MutagenProjectService,
+        private readonly workspaceState: vscode.Memento
+    ) {
         this.service = MutagenService.getInstance();
+        this.grouping = this.workspaceState.get<SessionGroupingState>(GROUPING_STATE_KEY, { mode: 'none' });
+        this.stateSource.onDidChangeSessions(sessions => this.applySessions(sessions));
+        this.stateSource.onDidFail(err => this.handleLoadError(err));
     }
 
     refresh(): void {
@@ -63,29 +133,114 @@ export class SessionsTreeDataProvider implements vscode.TreeDataProvider<Session
         }
 
         this.isLoading = true;
-        this.lastError = null;
 
         try {
-            const newSessions = await this.service.listSessions();
-            const hasChanges = this.detectChanges(newSessions);
+            // Sessions arrive through applySessions via the shared state source
+            await this.stateSource.refresh();
+            const newForwards = await this.loadForwards();
+            const newProjects = await this.projectService.detectProjects();
+            const hasChanges =
+                this.getForwardsFingerprint(newForwards) !== this.getForwardsFingerprint(this.forwards)
+                || this.getProjectsFingerprint(newProjects) !== this.getProjectsFingerprint(this.projects);
 
             if (hasChanges) {
-                this.sessions = newSessions;
-                this.updateSessionMap(newSessions);
+                this.forwards = newForwards;
+                this.projects = newProjects;
                 this.refresh();
-                Logger.debug(`Loaded ${this.sessions.length} sessions (changed)`);
-            } else {
-                Logger.debug(`Loaded ${newSessions.length} sessions (no changes)`);
             }
+            Logger.debug(`Loaded ${this.sessions.length} sessions, ${this.forwards.length} forwards`);
         } catch (err) {
-            const message = err instanceof Error ? err.message : String(err);
-            if (this.lastError !== message) {
-                this.lastError = message;
-                this.refresh();
-            }
-            Logger.error(`Failed to load sessions: ${message}`);
+            this.handleLoadError(err);
         } finally {
             this.isLoading = false;
+            this.startForwardPolling();
+        }
+    }
+
+    updateConfig(): void {
+        if (this.forwardPollInterval) {
+            this.stopForwardPolling();
+            this.startForwardPolling();
+        }
+    }
+
+    private startForwardPolling(): void {
+        if (this.forwardPollInterval) {
+            return;
+        }
+
+        const interval = vscode.workspace.getConfiguration('mutagen').get<number>('refreshInterval', 5000);
+        this.forwardPollInterval = setInterval(() => {
+            void this.refreshForwards();
+        }, interval);
+    }
+
+    private stopForwardPolling(): void {
+        if (this.forwardPollInterval) {
+            clearInterval(this.forwardPollInterval);
+            this.forwardPollInterval = null;
+        }
+    }
+
+    private async refreshForwards(): Promise<void> {
+        if (this.isLoading) {
+            return;
+        }
+
+        const newForwards = await this.loadForwards();
+        if (this.getForwardsFingerprint(newForwards) !== this.getForwardsFingerprint(this.forwards)) {
+            this.forwards = newForwards;
+            this.refresh();
+        }
+    }
+
+    private applySessions(newSessions: MutagenSession[]): void {
+        const recovered = this.lastError !== null;
+        this.lastError = null;
+
+        if (!recovered && !this.detectChanges(newSessions)) {
+            return;
+        }
+
+        this.sessions = newSessions;
+        this.updateSessionMap(newSessions);
+        this.refresh();
+        this._onDidChangeSessions.fire(newSessions);
+        this.detectNewConflicts(newSessions);
+    }
+
+    private detectNewConflicts(sessions: MutagenSession[]): void {
+        const knownConflictRoots = new Map<string, Set<string>>();
+        for (const session of sessions) {
+            const conflicts = session.conflicts ?? [];
+            const previous = this.knownConflictRoots.get(session.identifier);
+            const added = conflicts.filter(conflict => !previous?.has(conflict.root));
+            knownConflictRoots.set(session.identifier, new Set(conflicts.map(conflict => conflict.root)));
+
+            if (added.length > 0) {
+                this._onDidDetectNewConflicts.fire({ session, conflicts: added });
+            }
+        }
+        this.knownConflictRoots = knownConflictRoots;
+    }
+
+    private handleLoadError(err: unknown): void {
+        const message = err instanceof Error ? err.message : String(err);
+        if (this.lastError !== message) {
+            this.lastError = message;
+            this.refresh();
+        }
+        Logger.error(`Failed to load sessions: ${message}`);
+    }
+
+    private async loadForwards(): Promise<MutagenForwardSession[]> {
+        try {
+            return await this.service.listForwardSessions();
+        } catch (err) {
+            // Forwarding failures should not hide the sync sessions that did load.
+            const message = err instanceof Error ? err.message : String(err);
+            Logger.warn(`Failed to load forwarding sessions: ${message}`);
+            return this.forwards;
         }
     }
 
@@ -129,10 +284,17 @@ export class SessionsTreeDataProvider implements vscode.TreeDataProvider<Session
             oldSession.alpha.connected !== newSession.alpha.connected ||
             oldSession.beta.connected !== newSession.beta.connected ||
             this.getConflictFingerprint(oldSession) !== this.getConflictFingerprint(newSession) ||
+            this.getProblemsFingerprint(oldSession) !== this.getProblemsFingerprint(newSession) ||
             oldStagingReceived !== newStagingReceived
         );
     }
 
+    private getProblemsFingerprint(session: MutagenSession): string {
+        return getSessionProblems(session)
+            .map(problem => `${problem.kind}:${problem.side}:${problem.path}:${problem.error}`)
+            .join('|');
+    }
+
     private getConflictFingerprint(session: MutagenSession): string {
         const conflicts = session.conflicts ?? [];
         return conflicts
@@ -156,10 +318,132 @@ export class SessionsTreeDataProvider implements vscode.TreeDataProvider<Session
             .join('|');
     }
 
+    private getForwardsFingerprint(forwards: MutagenForwardSession[]): string {
+        return forwards
+            .map(forward => [
+                forward.identifier,
+                forward.status,
+                forward.paused,
+                forward.lastError ?? '',
+                forward.source.connected,
+                forward.destination.connected,
+                forward.openConnections,
+                forward.totalConnections
+            ].join(':'))
+            .sort()
+            .join('|');
+    }
+
+    private getProjectsFingerprint(projects: MutagenProject[]): string {
+        return projects
+            .map(project => `${project.projectFile}:${project.identifier ?? ''}`)
+            .sort()
+            .join('|');
+    }
+
     getSessions(): MutagenSession[] {
         return this.sessions;
     }
 
+    getProjects(): MutagenProject[] {
+        return this.projects;
+    }
+
+    getForwards(): MutagenForwardSession[] {
+        return this.forwards;
+    }
+
+    getGrouping(): SessionGroupingState {
+        return this.grouping;
+    }
+
+    async setGrouping(mode: SessionGroupingMode, labelKey?: string): Promise<void> {
+        this.grouping = mode === 'label' ? { mode, labelKey } : { mode };
+        await this.workspaceState.update(GROUPING_STATE_KEY, this.grouping);
+        this.refresh();
+    }
+
+    getFilter(): SessionFilter | null {
+        return this.filter;
+    }
+
+    setFilter(filter: SessionFilter | null): void {
+        const text = filter?.text?.trim();
+        this.filter = filter && (filter.preset || text) ? { preset: filter.preset, text: text || undefined } : null;
+        this._onDidChangeFilter.fire(this.filter);
+        this.refresh();
+    }
+
+    describeFilter(): string | undefined {
+        if (!this.filter) {
+            return undefined;
+        }
+
+        const parts: string[] = [];
+        if (this.filter.preset) {
+            parts.push(this.filter.preset);
+        }
+        if (this.filter.text) {
+            parts.push(`"${this.filter.text}"`);
+        }
+
+        const visible = this.sessions.filter(session => this.matchesFilter(session)).length;
+        return `Filtered by ${parts.join(' + ')}: ${visible} of ${this.sessions.length} sessions`;
+    }
+
+    private matchesFilter(session: MutagenSession): boolean {
+        if (!this.filter) {
+            return true;
+        }
+
+        const summary = toSessionSummary(session);
+        switch (this.filter.preset) {
+            case 'errors':
+                if (!summary.hasErrors) {
+                    return false;
+                }
+                break;
+            case 'conflicts':
+                if (!summary.hasConflicts) {
+                    return false;
+                }
+                break;
+            case 'paused':
+                if (!session.paused) {
+                    return false;
+                }
+                break;
+            case 'active':
+                if (session.paused) {
+                    return false;
+                }
+                break;
+        }
+
+        if (!this.filter.text) {
+            return true;
+        }
+
+        const needle = this.filter.text.toLowerCase();
+        const haystack = [
+            summary.name,
+            session.identifier,
+            summary.remoteHost ?? '',
+            summary.localPath,
+            summary.remotePath,
+            formatLabels(getUserLabels(session.labels)),
+            session.status,
+            getStatusLabel(session.status, session.paused)
+        ];
+
+        return haystack.some(value => value.toLowerCase().includes(needle));
+    }
+
+    // True while the last attempt to load sessions failed, so getSessions() may be stale or empty
+    hasLoadError(): boolean {
+        return this.lastError !== null;
+    }
+
     getSessionById(id: string): MutagenSession | undefined {
         return this.sessions.find(s => s.identifier === id || s.name === id);
     }
@@ -181,6 +465,29 @@ export class SessionsTreeDataProvider implements vscode.TreeDataProvider<Session
             return this.getConflictItems(element.session, element);
         }
 
+        if (element.itemType === 'problems-group' && element.session) {
+            return this.getProblemItems(element.session, element);
+        }
+
+        if (element.itemType === 'project' && element.project) {
+            return this.projectService
+                .getProjectSessions(element.project, this.sessions)
+                .filter(session => this.matchesFilter(session))
+                .map(session => this.createSessionItem(session));
+        }
+
+        if (element.itemType === 'session-group' && element.id) {
+            return (this.groupMembers.get(element.id) ?? []).map(session => this.createSessionItem(session));
+        }
+
+        if (element.itemType === 'forwards-group') {
+            return this.forwards.map(forward => this.createForwardItem(forward, element));
+        }
+
+        if (element.itemType === 'forward' && element.forward) {
+            return this.getForwardDetails(element.forward, element);
+        }
+
         return [];
     }
 
@@ -212,11 +519,205 @@ export class SessionsTreeDataProvider implements vscode.TreeDataProvider<Session
             return [error];
         }
 
-        if (this.sessions.length === 0) {
-            return [];
+        const items: SessionTreeItem[] = [];
+        const projectSessionIds = new Set<string>();
+
+        for (const project of this.projects) {
+            const projectSessions = this.projectService.getProjectSessions(project, this.sessions);
+            for (const session of projectSessions) {
+                projectSessionIds.add(session.identifier);
+            }
+
+            // Keep project nodes visible under a filter only when one of their sessions matches
+            if (!this.filter || projectSessions.some(session => this.matchesFilter(session))) {
+                items.push(this.createProjectItem(project, projectSessions));
+            }
+        }
+
+        const looseSessions = this.sessions.filter(session =>
+            !projectSessionIds.has(session.identifier) && this.matchesFilter(session)
+        );
+        items.push(...this.getGroupedSessionItems(looseSessions));
+
+        if (this.filter && items.length === 0) {
+            const empty = new SessionTreeItem(
+                'No sessions match the current filter',
+                vscode.TreeItemCollapsibleState.None,
+                'info',
+                undefined,
+                undefined,
+                'filter-empty'
+            );
+            empty.iconPath = new vscode.ThemeIcon('filter');
+            empty.command = {
+                command: 'mutagen.clearSessionFilter',
+                title: 'Clear Filter'
+            };
+            items.push(empty);
         }
 
-        return this.sessions.map(session => this.createSessionItem(session));
+        if (this.forwards.length > 0) {
+            const forwardsGroup = new SessionTreeItem(
+                'Port Forwards',
+                vscode.TreeItemCollapsibleState.Expanded,
+                'forwards-group',
+                undefined,
+                undefined,
+                'forwards-group'
+            );
+            forwardsGroup.iconPath = new vscode.ThemeIcon('radio-tower');
+            forwardsGroup.description = `${this.forwards.length}`;
+            forwardsGroup.contextValue = 'forwards-group';
+            items.push(forwardsGroup);
+        }
+
+        return items;
+    }
+
+    private getGroupedSessionItems(sessions: MutagenSession[]): SessionTreeItem[] {
+        this.groupMembers.clear();
+
+        if (this.grouping.mode === 'none') {
+            return sessions.map(session => this.createSessionItem(session));
+        }
+
+        const groups = new Map<string, MutagenSession[]>();
+        for (const session of sessions) {
+            const key = this.getGroupKey(session);
+            const members = groups.get(key) ?? [];
+            members.push(session);
+            groups.set(key, members);
+        }
+
+        return Array.from(groups.keys())
+            .sort((a, b) => a.localeCompare(b))
+            .map(key => {
+                const itemId = `group-${this.grouping.mode}-${key}`;
+                const members = groups.get(key) ?? [];
+                this.groupMembers.set(itemId, members);
+                return this.createGroupItem(key, itemId, members);
+            });
+    }
+
+    private getGroupKey(session: MutagenSession): string {
+        const summary = toSessionSummary(session);
+
+        switch (this.grouping.mode) {
+            case 'host':
+                return summary.remoteHost || 'Local';
+            case 'label': {
+                const labelKey = this.grouping.labelKey ?? '';
+                const value = getUserLabels(session.labels)[labelKey];
+                return value !== undefined ? `${labelKey}=${value || '(empty)'}` : `No "${labelKey}" label`;
+            }
+            case 'workspace':
+                return isPathInCurrentWorkspace(summary.localPath) ? 'Current Workspace' : 'Other Workspaces';
+            case 'status':
+                return this.getStatusGroup(session);
+            default:
+                return '';
+        }
+    }
+
+    private getStatusGroup(session: MutagenSession): string {
+        if (session.paused) {
+            return 'Paused';
+        }
+        if (session.status.startsWith('halted') || session.lastError || (session.conflicts?.length ?? 0) > 0) {
+            return 'Needs Attention';
+        }
+        if (session.status === 'disconnected' || session.status.startsWith('connecting')) {
+            return 'Disconnected';
+        }
+        if (session.status === 'watching') {
+            return 'Watching';
+        }
+        return 'Syncing';
+    }
+
+    private createGroupItem(label: string, itemId: string, sessions: MutagenSession[]): SessionTreeItem {
+        const item = new SessionTreeItem(
+            label,
+            vscode.TreeItemCollapsibleState.Expanded,
+            'session-group',
+            undefined,
+            undefined,
+            itemId
+        );
+
+        const pausedCount = sessions.filter(session => session.paused).length;
+        const attentionCount = sessions.filter(session => {
+            const summary = toSessionSummary(session);
+            return summary.hasErrors || summary.hasConflicts;
+        }).length;
+        const activeCount = sessions.length - pausedCount;
+
+        const counts = [`${activeCount} active`];
+        if (pausedCount > 0) {
+            counts.push(`${pausedCount} paused`);
+        }
+        if (attentionCount > 0) {
+            counts.push(`${attentionCount} with issues`);
+        }
+
+        item.iconPath = new vscode.ThemeIcon(this.getGroupIcon());
+        item.description = `${sessions.length} · ${counts.join(', ')}`;
+        item.tooltip = `${label}: ${sessions.length} session${sessions.length === 1 ? '' : 's'} (${counts.join(', ')})`;
+        item.contextValue = 'session-group';
+        return item;
+    }
+
+    private getGroupIcon(): string {
+        switch (this.grouping.mode) {
+            case 'host':
+                return 'server';
+            case 'label':
+                return 'tag';
+            case 'workspace':
+                return 'root-folder';
+            default:
+                return 'pulse';
+        }
+    }
+
+    private createProjectItem(project: MutagenProject, sessions: MutagenSession[]): SessionTreeItem {
+        const item = new SessionTreeItem(
+            project.name,
+            sessions.length > 0
+                ? vscode.TreeItemCollapsibleState.Expanded
+                : vscode.TreeItemCollapsibleState.None,
+            'project',
+            undefined,
+            undefined,
+            `project-${project.projectFile}`,
+            undefined,
+            undefined,
+            project
+        );
+
+        const pausedCount = sessions.filter(session => session.paused).length;
+        item.iconPath = new vscode.ThemeIcon('project');
+        item.description = sessions.length > 0
+            ? `${sessions.length} session${sessions.length > 1 ? 's' : ''}${pausedCount > 0 ? `, ${pausedCount} paused` : ''}`
+            : 'Not started';
+
+        item.tooltip = new vscode.MarkdownString();
+        item.tooltip.appendMarkdown(`**Project: ${project.name}**\n\n`);
+        item.tooltip.appendMarkdown(`- **File:** \`${project.projectFile}\`\n`);
+        if (project.identifier) {
+            item.tooltip.appendMarkdown(`- **Identifier:** \`${project.identifier}\`\n`);
+        }
+        item.tooltip.appendMarkdown(`- **Sessions:** ${sessions.length}\n`);
+
+        if (sessions.length === 0) {
+            item.contextValue = 'project-stopped';
+        } else if (pausedCount === sessions.length) {
+            item.contextValue = 'project-paused';
+        } else {
+            item.contextValue = 'project-running';
+        }
+
+        return item;
     }
 
     private createSessionItem(session: MutagenSession): SessionTreeItem {
@@ -253,6 +754,11 @@ export class SessionsTreeDataProvider implements vscode.TreeDataProvider<Session
         item.tooltip.appendMarkdown(`- **Files:** ${summary.fileCount.toLocaleString()}\n`);
         item.tooltip.appendMarkdown(`- **Size:** ${formatFileSize(summary.totalSize)}\n`);
 
+        const labels = getUserLabels(session.labels);
+        if (Object.keys(labels).length > 0) {
+            item.tooltip.appendMarkdown(`- **Labels:** \`${formatLabels(labels)}\`\n`);
+        }
+
         if (summary.hasErrors) {
             item.tooltip.appendMarkdown('\n⚠️ **Has Errors**\n');
         }
@@ -362,6 +868,22 @@ export class SessionsTreeDataProvider implements vscode.TreeDataProvider<Session
             items.push(conflictsItem);
         }
 
+        const problems = getSessionProblems(session);
+        if (problems.length > 0) {
+            const problemsItem = new SessionTreeItem(
+                `Problems: ${problems.length}`,
+                vscode.TreeItemCollapsibleState.Collapsed,
+                'problems-group',
+                session,
+                parent,
+                `${sid}-problems-group`
+            );
+            problemsItem.iconPath = new vscode.ThemeIcon('error');
+            problemsItem.contextValue = 'problems-group';
+            problemsItem.tooltip = 'Expand to view scan and transition problems';
+            items.push(problemsItem);
+        }
+
         if (session.lastError) {
             const errorItem = new SessionTreeItem(
                 `Error: ${session.lastError.substring(0, 50)}...`,
@@ -431,10 +953,158 @@ export class SessionsTreeDataProvider implements vscode.TreeDataProvider<Session
         });
     }
 
+    private getProblemItems(session: MutagenSession, parent: SessionTreeItem): SessionTreeItem[] {
+        return getSessionProblems(session).map((problem, index) => {
+            const problemPath = problem.path || '.';
+            const problemItem = new SessionTreeItem(
+                problemPath,
+                vscode.TreeItemCollapsibleState.None,
+                'problem',
+                session,
+                parent,
+                `${session.identifier}-problem-${index}-${encodeURIComponent(problemPath)}`,
+                undefined,
+                undefined,
+                undefined,
+                problem
+            );
+
+            problemItem.iconPath = new vscode.ThemeIcon(problem.kind === 'scan' ? 'search' : 'arrow-swap');
+            problemItem.contextValue = 'problem';
+            problemItem.description = problem.error;
+            problemItem.command = {
+                command: 'mutagen.openProblemLocal',
+                title: 'Open Local Path',
+                arguments: [problemItem]
+            };
+
+            problemItem.tooltip = new vscode.MarkdownString();
+            problemItem.tooltip.appendMarkdown(`**${problem.kind === 'scan' ? 'Scan' : 'Transition'} problem:** \`${problemPath}\`\n\n`);
+            problemItem.tooltip.appendMarkdown(`- **Endpoint:** ${problem.side === 'local' ? 'Local' : 'Remote'}\n`);
+            problemItem.tooltip.appendMarkdown(`- **Error:** ${problem.error}\n`);
+
+            return problemItem;
+        });
+    }
+
+    private createForwardItem(forward: MutagenForwardSession, parent: SessionTreeItem): SessionTreeItem {
+        const displayName = forward.name || forward.identifier.substring(0, 8);
+        const statusLabel = getForwardStatusLabel(forward.status, forward.paused);
+        const source = formatForwardEndpoint(forward.source);
+        const destination = formatForwardEndpoint(forward.destination);
+
+        const item = new SessionTreeItem(
+            displayName,
+            vscode.TreeItemCollapsibleState.Collapsed,
+            'forward',
+            undefined,
+            parent,
+            `forward-${forward.identifier}`,
+            undefined,
+            forward
+        );
+
+        item.iconPath = new vscode.ThemeIcon('plug');
+        item.description = `${forward.source.endpoint} → ${forward.destination.host || forward.destination.endpoint}`;
+
+        item.tooltip = new vscode.MarkdownString();
+        item.tooltip.appendMarkdown(`**${displayName}**\n\n`);
+        item.tooltip.appendMarkdown(`- **Status:** ${statusLabel}\n`);
+        item.tooltip.appendMarkdown(`- **Source:** \`${source}\`\n`);
+        item.tooltip.appendMarkdown(`- **Destination:** \`${destination}\`\n`);
+        item.tooltip.appendMarkdown(`- **Open connections:** ${forward.openConnections ?? 0}\n`);
+
+        if (forward.lastError) {
+            item.tooltip.appendMarkdown('\n⚠️ **Has Errors**\n');
+        }
+
+        item.contextValue = forward.paused ? 'forward-paused' : 'forward-active';
+
+        return item;
+    }
+
+    private getForwardDetails(forward: MutagenForwardSession, parent: SessionTreeItem): SessionTreeItem[] {
+        const items: SessionTreeItem[] = [];
+        const fid = forward.identifier;
+        const openConnections = typeof forward.openConnections === 'number' ? forward.openConnections : 0;
+        const totalConnections = typeof forward.totalConnections === 'number' ? forward.totalConnections : 0;
+
+        const statusItem = new SessionTreeItem(
+            `Status: ${getForwardStatusLabel(forward.status, forward.paused)}`,
+            vscode.TreeItemCollapsibleState.None,
+            'info',
+            undefined,
+            parent,
+            `${fid}-status`
+        );
+        statusItem.iconPath = new vscode.ThemeIcon(getForwardStatusIcon(forward.status, forward.paused));
+        items.push(statusItem);
+
+        const sourceItem = new SessionTreeItem(
+            `Source: ${forward.source.endpoint}`,
+            vscode.TreeItemCollapsibleState.None,
+            'endpoint',
+            undefined,
+            parent,
+            `${fid}-source`
+        );
+        sourceItem.iconPath = new vscode.ThemeIcon('arrow-right');
+        sourceItem.description = forward.source.connected ? 'Connected' : 'Disconnected';
+        sourceItem.tooltip = formatForwardEndpoint(forward.source);
+        items.push(sourceItem);
+
+        const destinationItem = new SessionTreeItem(
+            `Destination: ${forward.destination.host || forward.destination.endpoint}`,
+            vscode.TreeItemCollapsibleState.None,
+            'endpoint',
+            undefined,
+            parent,
+            `${fid}-destination`
+        );
+        destinationItem.iconPath = new vscode.ThemeIcon('remote');
+        destinationItem.description = forward.destination.connected ? 'Connected' : 'Disconnected';
+        destinationItem.tooltip = formatForwardEndpoint(forward.destination);
+        items.push(destinationItem);
+
+        const connectionsItem = new SessionTreeItem(
+            `Connections: ${openConnections} open`,
+            vscode.TreeItemCollapsibleState.None,
+            'info',
+            undefined,
+            parent,
+            `${fid}-connections`
+        );
+        connectionsItem.iconPath = new vscode.ThemeIcon('pulse');
+        connectionsItem.description = `${totalConnections} total`;
+        connectionsItem.tooltip = `Outbound: ${formatFileSize(forward.totalOutboundData)}, `
+            + `Inbound: ${formatFileSize(forward.totalInboundData)}`;
+        items.push(connectionsItem);
+
+        if (forward.lastError) {
+            const errorItem = new SessionTreeItem(
+                `Error: ${forward.lastError.substring(0, 50)}...`,
+                vscode.TreeItemCollapsibleState.None,
+                'error',
+                undefined,
+                parent,
+                `${fid}-error`
+            );
+            errorItem.iconPath = new vscode.ThemeIcon('error');
+            errorItem.tooltip = forward.lastError;
+            items.push(errorItem);
+        }
+
+        return items;
+    }
+
     private splitConflictRoot(conflictRoot: string): string[] {
         return conflictRoot
             .replace(/\\/g, '/')
             .split('/')
             .filter(segment => segment.length > 0 && segment !== '.');
     }
+
+    dispose(): void {
+        this.stopForwardPolling();
+    }
 }
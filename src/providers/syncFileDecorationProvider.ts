@@ -0,0 +1,157 @@
+import * as path from 'path';
+import * as vscode from 'vscode';
+import {
+    MutagenSession,
+    getSessionProblems,
+    getStatusIcon,
+    getStatusLabel,
+    toSessionSummary
+} from '../models/session';
+import { SessionsTreeDataProvider } from './sessionsTreeDataProvider';
+import { isPathIgnored } from '../utils/ignore';
+
+interface DecoratedRoot {
+    root: string;
+    ignorePaths: string[];
+}
+
+// File decoration badges are limited to two characters, so codicons map onto glyphs
+const STATUS_ICON_GLYPHS: Record<string, string> = {
+    'debug-start': '⏸',
+    'debug-pause': '●',
+    'search': '◌',
+    'cloud-download': '↓',
+    'sync~spin': '↻',
+    'git-compare': '⇄',
+    'save': '↓',
+    'plug': '…',
+    'debug-disconnect': '○',
+    'error': '✕',
+    'circle-outline': '○'
+};
+
+/**
+ * Explorer decorations for synced folders: session roots carry their status,
+ * conflicted and problem paths get badges, and ignored paths can be dimmed.
+ */
+export class SyncFileDecorationProvider implements vscode.FileDecorationProvider, vscode.Disposable {
+    private readonly _onDidChangeFileDecorations = new vscode.EventEmitter<vscode.Uri | vscode.Uri[] | undefined>();
+    readonly onDidChangeFileDecorations = this._onDidChangeFileDecorations.event;
+
+    private decorations = new Map<string, vscode.FileDecoration>();
+    private roots: DecoratedRoot[] = [];
+    private dimIgnoredPaths = false;
+    private readonly subscription: vscode.Disposable;
+
+    constructor(treeProvider: SessionsTreeDataProvider) {
+        this.subscription = treeProvider.onDidChangeSessions(sessions => this.update(sessions));
+        this.dimIgnoredPaths = vscode.workspace.getConfiguration('mutagen').get<boolean>('dimIgnoredPaths', false);
+        this.update(treeProvider.getSessions());
+    }
+
+    updateConfig(): void {
+        const config = vscode.workspace.getConfiguration('mutagen');
+        const dimIgnoredPaths = config.get<boolean>('dimIgnoredPaths', false);
+        if (dimIgnoredPaths !== this.dimIgnoredPaths) {
+            this.dimIgnoredPaths = dimIgnoredPaths;
+            this._onDidChangeFileDecorations.fire(undefined);
+        }
+    }
+
+    update(sessions: MutagenSession[]): void {
+        const decorations = new Map<string, vscode.FileDecoration>();
+        const roots: DecoratedRoot[] = [];
+
+        for (const session of sessions) {
+            const local = session.alpha.protocol === 'local'
+                ? session.alpha
+                : session.beta.protocol === 'local' ? session.beta : undefined;
+            if (!local) {
+                continue;
+            }
+
+            const root = path.resolve(local.path);
+            roots.push({ root, ignorePaths: session.ignore?.paths ?? [] });
+
+            const summary = toSessionSummary(session);
+            const statusIcon = getStatusIcon(session.status, session.paused);
+            decorations.set(root, new vscode.FileDecoration(
+                STATUS_ICON_GLYPHS[statusIcon] ?? '●',
+                `Mutagen "${summary.name}": ${getStatusLabel(session.status, session.paused)}`,
+                summary.hasErrors || summary.hasConflicts
+                    ? new vscode.ThemeColor('list.warningForeground')
+                    : undefined
+            ));
+
+            for (const problem of getSessionProblems(session)) {
+                const target = this.resolvePath(root, problem.path);
+                if (target && target !== root) {
+                    const decoration = new vscode.FileDecoration(
+                        'E',
+                        `Mutagen ${problem.kind} problem: ${problem.error}`,
+                        new vscode.ThemeColor('list.errorForeground')
+                    );
+                    decoration.propagate = true;
+                    decorations.set(target, decoration);
+                }
+            }
+
+            for (const conflict of session.conflicts ?? []) {
+                const target = this.resolvePath(root, conflict.root);
+                if (target && target !== root) {
+                    const decoration = new vscode.FileDecoration(
+                        'C',
+                        'Mutagen sync conflict',
+                        new vscode.ThemeColor('list.warningForeground')
+                    );
+                    decoration.propagate = true;
+                    decorations.set(target, decoration);
+                }
+            }
+        }
+
+        this.decorations = decorations;
+        this.roots = roots;
+        this._onDidChangeFileDecorations.fire(undefined);
+    }
+
+    provideFileDecoration(uri: vscode.Uri): vscode.FileDecoration | undefined {
+        if (uri.scheme !== 'file') {
+            return undefined;
+        }
+
+        const filePath = path.resolve(uri.fsPath);
+        const decoration = this.decorations.get(filePath);
+        if (decoration || !this.dimIgnoredPaths) {
+            return decoration;
+        }
+
+        for (const { root, ignorePaths } of this.roots) {
+            const relative = path.relative(root, filePath);
+            if (!relative || relative.startsWith('..') || path.isAbsolute(relative)) {
+                continue;
+            }
+
+            if (isPathIgnored(relative, ignorePaths)) {
+                return new vscode.FileDecoration(
+                    undefined,
+                    'Ignored by Mutagen session',
+                    new vscode.ThemeColor('gitDecoration.ignoredResourceForeground')
+                );
+            }
+        }
+
+        return undefined;
+    }
+
+    private resolvePath(root: string, relativePath: string): string | null {
+        const target = path.resolve(root, ...relativePath.replace(/\\/g, '/').split('/').filter(Boolean));
+        const relative = path.relative(root, target);
+        return relative.startsWith('..') || path.isAbsolute(relative) ? null : target;
+    }
+
+    dispose(): void {
+        this.subscription.dispose();
+        this._onDidChangeFileDecorations.dispose();
+    }
+}
@@ -0,0 +1,265 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { EndpointAddress } from '../models/session';
+import { Logger } from '../utils/logger';
+
+const CONFLICT_BACKUP_STORAGE_KEY = 'mutagen.conflictBackups.v1';
+
+export type ConflictBackupSide = 'local' | 'remote';
+
+export interface ConflictBackup {
+    id: string;
+    sessionIdentifier: string;
+    sessionName: string;
+    conflictRoot: string;
+    side: ConflictBackupSide;
+    kind: 'file' | 'directory';
+    // Where the overwritten content lived, so it can be restored even after the session is gone
+    endpoint: EndpointAddress;
+    originalPath: string;
+    createdAt: string;
+}
+
+export interface CreateConflictBackupInput {
+    sessionIdentifier: string;
+    sessionName: string;
+    conflictRoot: string;
+    side: ConflictBackupSide;
+    endpoint: EndpointAddress;
+    originalPath: string;
+}
+
+/**
+ * Keeps copies of conflict paths that are about to be overwritten. Content lives
+ * under the extension's global storage as `<session>/<backup id>/`; the index is
+ * kept in global state and trimmed to the configured retention limits.
+ */
+export class ConflictBackupService implements vscode.Disposable {
+    private readonly _onDidChangeBackups = new vscode.EventEmitter<void>();
+    readonly onDidChangeBackups = this._onDidChangeBackups.event;
+
+    private readonly backupRoot: string;
+    // Backups whose content is being copied but that are not indexed yet
+    private readonly pendingIds = new Set<string>();
+
+    constructor(private readonly context: vscode.ExtensionContext) {
+        this.backupRoot = path.join(context.globalStorageUri.fsPath, 'conflict-backups');
+    }
+
+    isEnabled(): boolean {
+        return vscode.workspace.getConfiguration('mutagen').get<boolean>('conflictBackups.enabled', true);
+    }
+
+    listBackups(): ConflictBackup[] {
+        const rawValue = this.context.globalState.get<unknown>(CONFLICT_BACKUP_STORAGE_KEY, []);
+        if (!Array.isArray(rawValue)) {
+            Logger.warn(`Invalid backup storage shape for key ${CONFLICT_BACKUP_STORAGE_KEY}`);
+            return [];
+        }
+
+        return rawValue
+            .filter((candidate): candidate is ConflictBackup => this.isBackup(candidate))
+            .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+    }
+
+    getBackupContentPath(backup: ConflictBackup): string {
+        return path.join(this.getBackupDirectory(backup), path.posix.basename(backup.conflictRoot) || 'root');
+    }
+
+    /**
+     * Runs `copy` to place the content in backup storage and records it. When the
+     * source does not exist `copy` should create nothing; null is returned then.
+     * `protectedId` names a backup that retention must not remove, such as one being restored.
+     */
+    async createBackup(
+        input: CreateConflictBackupInput,
+        copy: (destinationPath: string) => Promise<void>,
+        protectedId?: string
+    ): Promise<ConflictBackup | null> {
+        const id = `${Date.now().toString(36)}-${crypto.randomBytes(4).toString('hex')}`;
+        const pending: ConflictBackup = {
+            id,
+            sessionIdentifier: input.sessionIdentifier,
+            sessionName: input.sessionName,
+            conflictRoot: input.conflictRoot,
+            side: input.side,
+            kind: 'file',
+            endpoint: {
+                protocol: input.endpoint.protocol,
+                host: input.endpoint.host,
+                user: input.endpoint.user,
+                environment: input.endpoint.environment
+            },
+            originalPath: input.originalPath,
+            createdAt: new Date().toISOString()
+        };
+
+        const contentPath = this.getBackupContentPath(pending);
+        this.pendingIds.add(id);
+
+        try {
+            await fs.mkdir(path.dirname(contentPath), { recursive: true });
+
+            try {
+                await copy(contentPath);
+            } catch (err) {
+                await fs.rm(path.dirname(contentPath), { recursive: true, force: true });
+                throw err;
+            }
+
+            const kind = await this.getContentKind(contentPath);
+            if (!kind) {
+                // Nothing existed on the overwritten side, so there is nothing to keep
+                await fs.rm(path.dirname(contentPath), { recursive: true, force: true });
+                return null;
+            }
+
+            const backup: ConflictBackup = { ...pending, kind };
+            await this.saveBackups(this.applyRetention([backup, ...this.listBackups()], protectedId));
+            Logger.info(`Backed up ${backup.side} version of ${backup.conflictRoot} (${backup.sessionName}) to ${contentPath}`);
+            return backup;
+        } finally {
+            this.pendingIds.delete(id);
+        }
+    }
+
+    async deleteBackup(id: string): Promise<void> {
+        const backups = this.listBackups();
+        const backup = backups.find(candidate => candidate.id === id);
+        if (backup) {
+            await fs.rm(this.getBackupDirectory(backup), { recursive: true, force: true });
+        }
+        await this.saveBackups(backups.filter(candidate => candidate.id !== id));
+    }
+
+    async pruneBackups(): Promise<void> {
+        const backups = this.listBackups();
+        const retained = this.applyRetention(backups);
+        if (retained.length !== backups.length) {
+            await this.saveBackups(retained);
+        }
+        try {
+            await this.removeUnindexedContent(retained);
+        } catch (err) {
+            const message = err instanceof Error ? err.message : String(err);
+            Logger.warn(`Failed to clean up unindexed conflict backups: ${message}`);
+        }
+    }
+
+    private getBackupDirectory(backup: ConflictBackup): string {
+        return path.join(this.backupRoot, backup.sessionIdentifier, backup.id);
+    }
+
+    /**
+     * Deletes content directories missing from the index, e.g. left behind when the
+     * window closed between copying a backup and recording it.
+     */
+    private async removeUnindexedContent(backups: ConflictBackup[]): Promise<void> {
+        const indexed = new Set(backups.map(backup => this.getBackupDirectory(backup)));
+        const sessionDirectories = await this.readDirectoryNames(this.backupRoot);
+
+        for (const sessionDirectory of sessionDirectories) {
+            const sessionPath = path.join(this.backupRoot, sessionDirectory);
+            const backupDirectories = await this.readDirectoryNames(sessionPath);
+            let remaining = backupDirectories.length;
+
+            for (const backupDirectory of backupDirectories) {
+                const backupPath = path.join(sessionPath, backupDirectory);
+                if (indexed.has(backupPath) || this.pendingIds.has(backupDirectory)) {
+                    continue;
+                }
+
+                try {
+                    await fs.rm(backupPath, { recursive: true, force: true });
+                    remaining -= 1;
+                    Logger.info(`Removed unindexed conflict backup content ${backupPath}`);
+                } catch (err) {
+                    const message = err instanceof Error ? err.message : String(err);
+                    Logger.warn(`Failed to remove unindexed backup ${backupPath}: ${message}`);
+                }
+            }
+
+            if (remaining === 0) {
+                await fs.rm(sessionPath, { recursive: true, force: true }).catch(() => undefined);
+            }
+        }
+    }
+
+    private async readDirectoryNames(directory: string): Promise<string[]> {
+        try {
+            const entries = await fs.readdir(directory, { withFileTypes: true });
+            return entries.filter(entry => entry.isDirectory()).map(entry => entry.name);
+        } catch (err) {
+            if ((err as NodeJS.ErrnoException).code === 'ENOENT') {
+                return [];
+            }
+            throw err;
+        }
+    }
+
+    private applyRetention(backups: ConflictBackup[], protectedId?: string): ConflictBackup[] {
+        const config = vscode.workspace.getConfiguration('mutagen');
+        const maxCount = config.get<number>('conflictBackups.maxCount', 100);
+        const maxAgeDays = config.get<number>('conflictBackups.maxAgeDays', 30);
+        const oldestAllowed = maxAgeDays > 0 ? Date.now() - maxAgeDays * 24 * 60 * 60 * 1000 : 0;
+
+        const sorted = [...backups].sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+        const retained = sorted.filter((backup, index) =>
+            backup.id === protectedId
+            || ((maxCount <= 0 || index < maxCount) && Date.parse(backup.createdAt) >= oldestAllowed)
+        );
+
+        const retainedIds = new Set(retained.map(backup => backup.id));
+        for (const backup of sorted) {
+            if (!retainedIds.has(backup.id)) {
+                void fs.rm(this.getBackupDirectory(backup), { recursive: true, force: true }).catch(err => {
+                    const message = err instanceof Error ? err.message : String(err);
+                    Logger.warn(`Failed to remove expired backup ${backup.id}: ${message}`);
+                });
+            }
+        }
+
+        return retained;
+    }
+
+    private async getContentKind(contentPath: string): Promise<ConflictBackup['kind'] | null> {
+        try {
+            const stat = await fs.stat(contentPath);
+            return stat.isDirectory() ? 'directory' : 'file';
+        } catch (err) {
+            if ((err as NodeJS.ErrnoException).code === 'ENOENT') {
+                return null;
+            }
+            throw err;
+        }
+    }
+
+    private async saveBackups(backups: ConflictBackup[]): Promise<void> {
+        await this.context.globalState.update(CONFLICT_BACKUP_STORAGE_KEY, backups);
+        this._onDidChangeBackups.fire();
+    }
+
+    private isBackup(value: unknown): value is ConflictBackup {
+        if (!value || typeof value !== 'object') {
+            return false;
+        }
+
+        const record = value as Record<string, unknown>;
+        return typeof record.id === 'string'
+            && typeof record.sessionIdentifier === 'string'
+            && typeof record.sessionName === 'string'
+            && typeof record.conflictRoot === 'string'
+            && (record.side === 'local' || record.side === 'remote')
+            && (record.kind === 'file' || record.kind === 'directory')
+            && typeof record.originalPath === 'string'
+            && typeof record.createdAt === 'string'
+            && !!record.endpoint
+            && typeof record.endpoint === 'object';
+    }
+
+    dispose(): void {
+        this._onDidChangeBackups.dispose();
+    }
+}
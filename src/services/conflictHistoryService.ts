@@ -0,0 +1,101 @@
+import * as crypto from 'crypto';
+import * as os from 'os';
+import * as vscode from 'vscode';
+import { Logger } from '../utils/logger';
+
+const CONFLICT_HISTORY_STORAGE_KEY = 'mutagen.conflictHistory.v1';
+const MAX_HISTORY_ENTRIES = 2000;
+
+export type ConflictResolution = 'local' | 'remote' | 'merge' | 'keep-both';
+
+// What triggered the resolution: a single accept, a batch, the merge editor or an automatic policy
+export type ConflictHistorySource = 'accept' | 'accept-all' | 'merge' | 'policy';
+
+export interface ConflictHistoryEntry {
+    id: string;
+    timestamp: string;
+    sessionIdentifier: string;
+    sessionName: string;
+    path: string;
+    // A policy that failed before picking a side is recorded with its 'newest' strategy
+    resolution: ConflictResolution | 'newest';
+    source: ConflictHistorySource;
+    outcome: 'succeeded' | 'failed';
+    error?: string;
+    user: string;
+}
+
+export type RecordConflictHistoryInput = Omit<ConflictHistoryEntry, 'id' | 'timestamp' | 'user'>;
+
+/**
+ * Append-only log of conflict resolutions, newest first and capped in size.
+ */
+export class ConflictHistoryService implements vscode.Disposable {
+    private readonly _onDidChangeHistory = new vscode.EventEmitter<void>();
+    readonly onDidChangeHistory = this._onDidChangeHistory.event;
+
+    private readonly user: string;
+
+    constructor(private readonly context: vscode.ExtensionContext) {
+        this.user = this.resolveUser();
+    }
+
+    listEntries(sessionIdentifier?: string): ConflictHistoryEntry[] {
+        const rawValue = this.context.globalState.get<unknown>(CONFLICT_HISTORY_STORAGE_KEY, []);
+        if (!Array.isArray(rawValue)) {
+            Logger.warn(`Invalid history storage shape for key ${CONFLICT_HISTORY_STORAGE_KEY}`);
+            return [];
+        }
+
+        return rawValue
+            .filter((candidate): candidate is ConflictHistoryEntry => this.isEntry(candidate))
+            .filter(entry => !sessionIdentifier || entry.sessionIdentifier === sessionIdentifier);
+    }
+
+    async record(input: RecordConflictHistoryInput): Promise<void> {
+        const entry: ConflictHistoryEntry = {
+            id: crypto.randomBytes(8).toString('hex'),
+            timestamp: new Date().toISOString(),
+            user: this.user,
+            ...input
+        };
+
+        const entries = [entry, ...this.listEntries()].slice(0, MAX_HISTORY_ENTRIES);
+        await this.context.globalState.update(CONFLICT_HISTORY_STORAGE_KEY, entries);
+        this._onDidChangeHistory.fire();
+    }
+
+    async clear(): Promise<void> {
+        await this.context.globalState.update(CONFLICT_HISTORY_STORAGE_KEY, []);
+        this._onDidChangeHistory.fire();
+    }
+
+    private resolveUser(): string {
+        try {
+            return `${os.userInfo().username}@${os.hostname()}`;
+        } catch {
+            return os.hostname();
+        }
+    }
+
+    private isEntry(value: unknown): value is ConflictHistoryEntry {
+        if (!value || typeof value !== 'object') {
+            return false;
+        }
+
+        const record = value as Record<string, unknown>;
+        return typeof record.id === 'string'
+            && typeof record.timestamp === 'string'
+            && typeof record.sessionIdentifier === 'string'
+            && typeof record.sessionName === 'string'
+            && typeof record.path === 'string'
+            && typeof record.resolution === 'string'
+            && typeof record.source === 'string'
+            && (record.outcome === 'succeeded' || record.outcome === 'failed')
+            && typeof record.user === 'string';
+    }
+
+    dispose(): void {
+        this._onDidChangeHistory.dispose();
+    }
+}
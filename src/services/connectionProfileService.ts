@@ -1,6 +1,20 @@
 import * as path from 'path';
 import * as vscode from 'vscode';
-import { CreateSessionOptions } from '../models/session';
+import {
+    AdvancedSessionOptions,
+    COMPRESSION_ALGORITHMS,
+    ConflictPolicy,
+    CreateSessionOptions,
+    EndpointSessionOptions,
+    IGNORE_SYNTAXES,
+    PERMISSIONS_MODES,
+    PROBE_MODES,
+    SCAN_MODES,
+    STAGE_MODES,
+    SYMLINK_MODES,
+    WATCH_MODES,
+    parseConflictPolicies
+} from '../models/session';
 import { Logger } from '../utils/logger';
 
 const CONNECTION_PROFILE_STORAGE_KEY = 'mutagen.connectionProfiles.v1';
@@ -14,6 +28,10 @@ export interface ConnectionProfile {
     // undefined means keep Mutagen default behavior
     ignoreVcs?: boolean;
     ignorePaths?: string[];
+    labels?: Record<string, string>;
+    advancedOptions?: AdvancedSessionOptions;
+    // Checked before the mutagen.conflictPolicies setting
+    conflictPolicies?: ConflictPolicy[];
     workspaceFolder: string;
     lastSessionIdentifier?: string;
     updatedAt: string;
@@ -30,6 +48,9 @@ export interface UpsertConnectionProfileInput {
     mode?: CreateSessionOptions['mode'];
     ignoreVcs?: boolean;
     ignorePaths?: string[];
+    labels?: Record<string, string>;
+    advancedOptions?: AdvancedSessionOptions;
+    conflictPolicies?: ConflictPolicy[];
     workspaceFolder: string;
     lastSessionIdentifier?: string;
 }
@@ -93,6 +114,9 @@ export class ConnectionProfileService {
             mode: normalizedInput.mode,
             ignoreVcs: normalizedInput.ignoreVcs,
             ignorePaths: normalizedInput.ignorePaths,
+            labels: this.parseLabels(normalizedInput.labels),
+            advancedOptions: this.parseAdvancedOptions(normalizedInput.advancedOptions),
+            conflictPolicies: normalizedInput.conflictPolicies ?? existing?.conflictPolicies,
             workspaceFolder: normalizedInput.workspaceFolder,
             lastSessionIdentifier: normalizedInput.lastSessionIdentifier ?? existing?.lastSessionIdentifier,
             updatedAt: now
@@ -121,6 +145,22 @@ export class ConnectionProfileService {
         await this.saveProfiles(profiles);
     }
 
+    async updateConflictPolicies(profileId: string, policies: ConflictPolicy[]): Promise<void> {
+        const profiles = this.listProfiles();
+        const index = profiles.findIndex(profile => profile.id === profileId);
+        if (index < 0) {
+            return;
+        }
+
+        profiles[index] = {
+            ...profiles[index],
+            conflictPolicies: policies.length > 0 ? policies : undefined,
+            updatedAt: new Date().toISOString()
+        };
+
+        await this.saveProfiles(profiles);
+    }
+
     async removeProfile(profileId: string): Promise<boolean> {
         const profiles = this.listProfiles();
         const retained = profiles.filter(profile => profile.id !== profileId);
@@ -158,6 +198,9 @@ export class ConnectionProfileService {
         const mode = this.parseMode(record.mode);
         const ignoreVcs = typeof record.ignoreVcs === 'boolean' ? record.ignoreVcs : undefined;
         const ignorePaths = this.normalizeIgnorePaths(record.ignorePaths);
+        const labels = this.parseLabels(record.labels);
+        const advancedOptions = this.parseAdvancedOptions(record.advancedOptions);
+        const conflictPolicies = parseConflictPolicies(record.conflictPolicies);
         const lastSessionIdentifier = typeof record.lastSessionIdentifier === 'string'
             ? record.lastSessionIdentifier
             : undefined;
@@ -170,6 +213,9 @@ export class ConnectionProfileService {
             mode,
             ignoreVcs,
             ignorePaths,
+            labels,
+            advancedOptions,
+            conflictPolicies: conflictPolicies.length > 0 ? conflictPolicies : undefined,
             workspaceFolder: this.normalizePath(workspaceFolder),
             lastSessionIdentifier,
             updatedAt
@@ -188,6 +234,76 @@ export class ConnectionProfileService {
         }
     }
 
+    private parseLabels(value: unknown): Record<string, string> | undefined {
+        if (!value || typeof value !== 'object' || Array.isArray(value)) {
+            return undefined;
+        }
+
+        const entries = Object.entries(value as ConnectionProfileRecord)
+            .filter((entry): entry is [string, string] => typeof entry[1] === 'string');
+        return entries.length > 0 ? Object.fromEntries(entries) : undefined;
+    }
+
+    private parseAdvancedOptions(value: unknown): AdvancedSessionOptions | undefined {
+        if (!value || typeof value !== 'object') {
+            return undefined;
+        }
+
+        const record = value as ConnectionProfileRecord;
+        const options: AdvancedSessionOptions = {
+            ...this.parseEndpointOptions(record),
+            permissionsMode: this.parseChoice(record.permissionsMode, PERMISSIONS_MODES),
+            maxEntryCount: this.parsePositiveInteger(record.maxEntryCount),
+            ignoreSyntax: this.parseChoice(record.ignoreSyntax, IGNORE_SYNTAXES),
+            symlinkMode: this.parseChoice(record.symlinkMode, SYMLINK_MODES),
+            compression: this.parseChoice(record.compression, COMPRESSION_ALGORITHMS)
+        };
+
+        for (const side of ['alpha', 'beta'] as const) {
+            const sideValue = record[side];
+            if (sideValue && typeof sideValue === 'object') {
+                options[side] = this.parseEndpointOptions(sideValue as ConnectionProfileRecord);
+            }
+        }
+
+        return this.pruneUndefined(options);
+    }
+
+    private parseEndpointOptions(record: ConnectionProfileRecord): EndpointSessionOptions {
+        return this.pruneUndefined({
+            defaultFileMode: this.parseString(record.defaultFileMode),
+            defaultDirectoryMode: this.parseString(record.defaultDirectoryMode),
+            defaultOwner: this.parseString(record.defaultOwner),
+            defaultGroup: this.parseString(record.defaultGroup),
+            scanMode: this.parseChoice(record.scanMode, SCAN_MODES),
+            stageMode: this.parseChoice(record.stageMode, STAGE_MODES),
+            probeMode: this.parseChoice(record.probeMode, PROBE_MODES),
+            maxStagingFileSize: this.parseString(record.maxStagingFileSize),
+            watchMode: this.parseChoice(record.watchMode, WATCH_MODES),
+            watchPollingInterval: this.parsePositiveInteger(record.watchPollingInterval)
+        }) ?? {};
+    }
+
+    private parseChoice<T extends string>(value: unknown, choices: readonly T[]): T | undefined {
+        return choices.find(choice => choice === value);
+    }
+
+    private parseString(value: unknown): string | undefined {
+        return typeof value === 'string' && value.trim().length > 0 ? value.trim() : undefined;
+    }
+
+    private parsePositiveInteger(value: unknown): number | undefined {
+        return typeof value === 'number' && Number.isInteger(value) && value > 0 ? value : undefined;
+    }
+
+    // Drops unset keys so stored profiles stay compact; returns undefined when nothing is left
+    private pruneUndefined<T extends object>(value: T): T | undefined {
+        const entries = Object.entries(value).filter(([, item]) =>
+            item !== undefined && !(typeof item === 'object' && Object.keys(item).length === 0)
+        );
+        return entries.length > 0 ? Object.fromEntries(entries) as T : undefined;
+    }
+
     private normalizePath(rawPath: string): string {
         return path.resolve(rawPath);
     }
@@ -0,0 +1,130 @@
+/**
+ * Typed failures parsed from the stderr of the mutagen CLI and the ssh/scp tools
+ * used for conflict handling. Each type carries the remediation actions that make
+ * sense for it so callers can offer them instead of a generic error toast.
+ */
+
+export type MutagenErrorAction = 'startDaemon' | 'openSshConfig' | 'showLogs' | 'retry';
+
+export class MutagenError extends Error {
+    readonly actions: readonly MutagenErrorAction[] = ['showLogs', 'retry'];
+
+    constructor(readonly output: string) {
+        super(output);
+        this.name = 'MutagenError';
+    }
+
+    get summary(): string {
+        return firstLine(this.output);
+    }
+}
+
+export class DaemonUnreachableError extends MutagenError {
+    readonly actions: readonly MutagenErrorAction[] = ['startDaemon', 'showLogs', 'retry'];
+
+    get summary(): string {
+        return 'The Mutagen daemon is not running or cannot be reached';
+    }
+}
+
+export class SshAuthenticationError extends MutagenError {
+    readonly actions: readonly MutagenErrorAction[] = ['openSshConfig', 'showLogs', 'retry'];
+
+    get summary(): string {
+        return 'SSH authentication failed. Check the user, keys and agent configured for this host';
+    }
+}
+
+export class HostKeyMismatchError extends MutagenError {
+    readonly actions: readonly MutagenErrorAction[] = ['openSshConfig', 'showLogs'];
+
+    get summary(): string {
+        return 'SSH host key verification failed. Remove the stale entry with `ssh-keygen -R <host>` if the change is expected';
+    }
+}
+
+export class RemotePermissionDeniedError extends MutagenError {
+    get summary(): string {
+        return `Permission denied on the remote path: ${firstLine(this.output)}`;
+    }
+}
+
+export class AgentInstallError extends MutagenError {
+    get summary(): string {
+        return 'Unable to install or start the Mutagen agent on the remote endpoint';
+    }
+}
+
+export class SessionNotFoundError extends MutagenError {
+    readonly actions: readonly MutagenErrorAction[] = ['showLogs'];
+
+    get summary(): string {
+        return 'Session not found. It may have been terminated outside VS Code';
+    }
+}
+
+export class CommandCancelledError extends MutagenError {
+    readonly actions: readonly MutagenErrorAction[] = [];
+
+    get summary(): string {
+        return 'The operation was cancelled';
+    }
+}
+
+export class CommandTimeoutError extends MutagenError {
+    constructor(output: string, readonly timeoutMs: number) {
+        super(output);
+    }
+
+    get summary(): string {
+        return `The operation did not finish within ${Math.round(this.timeoutMs / 1000)}s. Check that the endpoint is reachable or raise mutagen.commandTimeout`;
+    }
+}
+
+/**
+ * A recreate terminated the original session but could not create its replacement.
+ * Retrying must create the session again rather than recreate the terminated one.
+ */
+export class SessionReplacementError extends MutagenError {
+    constructor(output: string, readonly terminatedIdentifier: string) {
+        super(output);
+    }
+
+    get summary(): string {
+        return `The original session was terminated, but its replacement could not be created: ${firstLine(this.output)}`;
+    }
+}
+
+const DAEMON_UNREACHABLE_PATTERN = /unable to connect to daemon|daemon (?:is )?not running/i;
+const HOST_KEY_PATTERN = /host key verification failed|remote host identification has changed|host key mismatch/i;
+const SSH_AUTH_PATTERN = /permission denied \((?:publickey|password|keyboard-interactive)|authentication failed|too many authentication failures|no supported authentication methods/i;
+const AGENT_INSTALL_PATTERN = /unable to install agent|agent installation failed|unable to dial agent endpoint|unable to (?:start|connect to) agent/i;
+const SESSION_NOT_FOUND_PATTERN = /unable to locate requested sessions|no matching sessions|session not found/i;
+const PERMISSION_DENIED_PATTERN = /permission denied|operation not permitted|read-only file system/i;
+
+export function classifyMutagenError(output: string): MutagenError {
+    // Order matters: agent install and SSH messages often embed "permission denied" text.
+    if (DAEMON_UNREACHABLE_PATTERN.test(output)) {
+        return new DaemonUnreachableError(output);
+    }
+    if (HOST_KEY_PATTERN.test(output)) {
+        return new HostKeyMismatchError(output);
+    }
+    if (SSH_AUTH_PATTERN.test(output)) {
+        return new SshAuthenticationError(output);
+    }
+    if (AGENT_INSTALL_PATTERN.test(output)) {
+        return new AgentInstallError(output);
+    }
+    if (SESSION_NOT_FOUND_PATTERN.test(output)) {
+        return new SessionNotFoundError(output);
+    }
+    if (PERMISSION_DENIED_PATTERN.test(output)) {
+        return new RemotePermissionDeniedError(output);
+    }
+    return new MutagenError(output);
+}
+
+function firstLine(text: string): string {
+    return text.trim().split(/\r?\n/)[0] ?? '';
+}
@@ -1,12 +1,61 @@
 import * as vscode from 'vscode';
 import * as cp from 'child_process';
-import { Conflict, MutagenSession, DaemonStatus, CreateSessionOptions } from '../models/session';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import {
+    Conflict,
+    MutagenSession,
+    DaemonStatus,
+    CreateSessionOptions,
+    AdvancedSessionOptions,
+    EndpointSessionOptions,
+    MutagenForwardSession,
+    CreateForwardOptions,
+    MutagenVersion,
+    SESSION_CORRELATION_LABEL
+} from '../models/session';
 import { Logger } from '../utils/logger';
+import {
+    CommandCancelledError,
+    CommandTimeoutError,
+    DaemonUnreachableError,
+    MutagenError,
+    SessionReplacementError,
+    classifyMutagenError
+} from './mutagenErrors';
+
+export interface ExecuteOptions {
+    // Concurrent calls with the same key share one process and result
+    commandKey?: string;
+    cwd?: string;
+    token?: vscode.CancellationToken;
+    // Overrides mutagen.commandTimeout; 0 disables the timeout
+    timeoutMs?: number;
+}
+
+export type LabelSelectorCommand = 'pause' | 'resume' | 'flush' | 'terminate';
+
+export type MutagenCapability =
+    | 'sessionMonitorStream'
+    | 'ignoreSyntax'
+    | 'endpointStagingProgress';
+
+// Oldest release the extension is tested against: `sync list --template` and labels
+export const MINIMUM_MUTAGEN_VERSION = '0.16.0';
+
+// First release providing each capability
+const CAPABILITY_VERSIONS: Record<MutagenCapability, string> = {
+    sessionMonitorStream: '0.17.0',
+    ignoreSyntax: '0.17.0',
+    endpointStagingProgress: '0.18.0'
+};
 
 export class MutagenService {
     private static instance: MutagenService;
     private executablePath: string = 'mutagen';
-    private runningCommands = new Set<string>();
+    private runningCommands = new Map<string, Promise<string>>();
+    private commandTimeoutMs = 120000;
+    private version: MutagenVersion | null = null;
 
     private constructor() {
         this.updateConfig();
@@ -21,28 +70,89 @@ export class MutagenService {
 
     updateConfig(): void {
         const config = vscode.workspace.getConfiguration('mutagen');
-        this.executablePath = config.get<string>('executablePath', 'mutagen');
+        const executablePath = config.get<string>('executablePath', 'mutagen');
+
+        if (executablePath !== this.executablePath) {
+            // A different binary may be a different release
+            this.version = null;
+        }
+        this.executablePath = executablePath;
+        this.commandTimeoutMs = Math.max(0, config.get<number>('commandTimeout', 120)) * 1000;
     }
 
-    private async execute(args: string[], commandKey?: string): Promise<string> {
-        if (commandKey && this.runningCommands.has(commandKey)) {
-            Logger.debug(`Command "${commandKey}" already running, skipping`);
-            return '';
+    private execute(args: string[], options: ExecuteOptions = {}): Promise<string> {
+        const { commandKey } = options;
+        const running = commandKey ? this.runningCommands.get(commandKey) : undefined;
+        if (running) {
+            // Share the in-flight result instead of handing the caller an empty output
+            Logger.debug(`Command "${commandKey}" already running, awaiting its result`);
+            return running;
         }
 
+        const promise = this.spawnCommand(args, options);
         if (commandKey) {
-            this.runningCommands.add(commandKey);
+            this.runningCommands.set(commandKey, promise);
+            const clear = () => {
+                if (this.runningCommands.get(commandKey) === promise) {
+                    this.runningCommands.delete(commandKey);
+                }
+            };
+            promise.then(clear, clear);
+        }
+
+        return promise;
+    }
+
+    private spawnCommand(args: string[], options: ExecuteOptions): Promise<string> {
+        const { cwd, token } = options;
+        const timeoutMs = options.timeoutMs ?? this.commandTimeoutMs;
+        const commandLine = `${this.executablePath} ${args.join(' ')}`;
+
+        if (token?.isCancellationRequested) {
+            return Promise.reject(new CommandCancelledError(`Cancelled: ${commandLine}`));
         }
 
         return new Promise((resolve, reject) => {
-            Logger.debug(`Executing: ${this.executablePath} ${args.join(' ')}`);
+            Logger.debug(`Executing: ${commandLine}`);
             
             const proc = cp.spawn(this.executablePath, args, {
+                cwd,
                 env: { ...globalThis.process.env }
             });
 
             let stdout = '';
             let stderr = '';
+            let settled = false;
+
+            const timer = timeoutMs > 0
+                ? setTimeout(() => finish(new CommandTimeoutError(`Timed out: ${commandLine}`, timeoutMs)), timeoutMs)
+                : undefined;
+            const cancellation = token?.onCancellationRequested(() => {
+                finish(new CommandCancelledError(`Cancelled: ${commandLine}`));
+            });
+
+            // Settle exactly once; killing the child covers both cancel and timeout
+            const finish = (error: Error | null, output = '') => {
+                if (settled) {
+                    return;
+                }
+                settled = true;
+                if (timer) {
+                    clearTimeout(timer);
+                }
+                cancellation?.dispose();
+
+                if (!error) {
+                    resolve(output);
+                    return;
+                }
+
+                if (error instanceof CommandCancelledError || error instanceof CommandTimeoutError) {
+                    Logger.warn(error.message);
+                    proc.kill();
+                }
+                reject(error);
+            };
 
             proc.stdout.on('data', (data) => {
                 stdout += data.toString();
@@ -53,32 +163,27 @@ export class MutagenService {
             });
 
             proc.on('close', (code) => {
-                if (commandKey) {
-                    this.runningCommands.delete(commandKey);
-                }
-
                 if (code === 0) {
-                    resolve(stdout);
+                    finish(null, stdout);
                 } else {
                     const error = stderr || stdout || `Command failed with code ${code}`;
-                    Logger.error(`Command failed: ${error}`);
-                    reject(new Error(error));
+                    if (!settled) {
+                        Logger.error(`Command failed: ${error}`);
+                    }
+                    finish(classifyMutagenError(error));
                 }
             });
 
             proc.on('error', (err) => {
-                if (commandKey) {
-                    this.runningCommands.delete(commandKey);
-                }
                 Logger.error(`Process error: ${err.message}`);
-                reject(err);
+                finish(err);
             });
         });
     }
 
     async checkInstallation(): Promise<boolean> {
         try {
-            await this.execute(['version'], 'version');
+            await this.execute(['version'], { commandKey: 'version' });
             return true;
         } catch {
             return false;
@@ -87,20 +192,65 @@ export class MutagenService {
 
     async getVersion(): Promise<string> {
         try {
-            const output = await this.execute(['version'], 'version');
-            return output.trim();
+            const output = await this.execute(['version'], { commandKey: 'version' });
+            const raw = output.trim();
+
+            this.version = parseMutagenVersion(raw);
+            if (!this.version) {
+                Logger.warn(`Unable to parse Mutagen version "${raw}", assuming all capabilities are available`);
+            }
+            return raw;
         } catch {
             return 'unknown';
         }
     }
 
+    getParsedVersion(): MutagenVersion | null {
+        return this.version;
+    }
+
+    isSupportedVersion(): boolean {
+        return !this.version || compareVersions(this.version, MINIMUM_MUTAGEN_VERSION) >= 0;
+    }
+
+    /**
+     * Unknown versions (not yet detected or unparsable) are treated as current
+     * so a missing `mutagen version` never disables features on its own.
+     */
+    hasCapability(capability: MutagenCapability): boolean {
+        return !this.version || compareVersions(this.version, CAPABILITY_VERSIONS[capability]) >= 0;
+    }
+
+    /**
+     * Older releases only report staging progress at the session level. Attach it
+     * to the endpoint being staged so consumers can read a single location.
+     */
+    private normalizeSessions(sessions: MutagenSession[]): MutagenSession[] {
+        if (this.hasCapability('endpointStagingProgress')) {
+            return sessions;
+        }
+
+        for (const session of sessions) {
+            if (!session.stagingProgress) {
+                continue;
+            }
+
+            if (session.status === 'staging-alpha') {
+                session.alpha.stagingProgress ??= session.stagingProgress;
+            } else if (session.status === 'staging-beta') {
+                session.beta.stagingProgress ??= session.stagingProgress;
+            }
+        }
+
+        return sessions;
+    }
+
     async getDaemonStatus(): Promise<DaemonStatus> {
         try {
             const sessions = await this.listSessions();
             return { running: true, version: await this.getVersion() };
         } catch (err) {
-            const errorMessage = err instanceof Error ? err.message : String(err);
-            if (errorMessage.includes('unable to connect to daemon')) {
+            if (err instanceof DaemonUnreachableError) {
                 return { running: false };
             }
             return { running: true };
@@ -108,20 +258,21 @@ export class MutagenService {
     }
 
     async startDaemon(): Promise<void> {
-        await this.execute(['daemon', 'start'], 'daemon-start');
+        await this.execute(['daemon', 'start'], { commandKey: 'daemon-start' });
         Logger.info('Mutagen daemon started');
     }
 
     async stopDaemon(): Promise<void> {
-        await this.execute(['daemon', 'stop'], 'daemon-stop');
+        await this.execute(['daemon', 'stop'], { commandKey: 'daemon-stop' });
         Logger.info('Mutagen daemon stopped');
     }
 
-    async listSessions(): Promise<MutagenSession[]> {
+    async listSessions(token?: vscode.CancellationToken): Promise<MutagenSession[]> {
         try {
+            // A cancellable call runs its own process so cancelling it cannot fail other callers sharing the list
             const output = await this.execute(
                 ['sync', 'list', '--template', '{{json .}}'],
-                'list'
+                token ? { token } : { commandKey: 'list' }
             );
             
             if (!output.trim()) {
@@ -129,7 +280,35 @@ export class MutagenService {
             }
 
             const sessions = JSON.parse(output);
-            return Array.isArray(sessions) ? sessions : [sessions];
+            return this.normalizeSessions(Array.isArray(sessions) ? sessions : [sessions]);
+        } catch (err) {
+            const errorMessage = err instanceof Error ? err.message : String(err);
+            if (errorMessage.includes('no synchronization sessions exist')) {
+                return [];
+            }
+            throw err;
+        }
+    }
+
+    async listSessionsByLabelSelector(
+        labelSelector: string,
+        token?: vscode.CancellationToken
+    ): Promise<MutagenSession[]> {
+        try {
+            const output = await this.execute(
+                ['sync', 'list', '--label-selector', labelSelector, '--template', '{{json .}}'],
+                { token }
+            );
+
+            if (!output.trim()) {
+                return [];
+            }
+
+            const sessions = JSON.parse(output);
+            if (!sessions) {
+                return [];
+            }
+            return this.normalizeSessions(Array.isArray(sessions) ? sessions : [sessions]);
         } catch (err) {
             const errorMessage = err instanceof Error ? err.message : String(err);
             if (errorMessage.includes('no synchronization sessions exist')) {
@@ -139,10 +318,11 @@ export class MutagenService {
         }
     }
 
-    async getSession(identifier: string): Promise<MutagenSession | null> {
+    async getSession(identifier: string, token?: vscode.CancellationToken): Promise<MutagenSession | null> {
         try {
             const output = await this.execute(
-                ['sync', 'list', identifier, '--template', '{{json .}}']
+                ['sync', 'list', identifier, '--template', '{{json .}}'],
+                { token }
             );
             
             if (!output.trim()) {
@@ -150,8 +330,12 @@ export class MutagenService {
             }
 
             const sessions = JSON.parse(output);
-            return Array.isArray(sessions) ? sessions[0] : sessions;
-        } catch {
+            const [session] = this.normalizeSessions(Array.isArray(sessions) ? sessions : [sessions]);
+            return session ?? null;
+        } catch (err) {
+            if (err instanceof CommandCancelledError) {
+                throw err;
+            }
             return null;
         }
     }
@@ -164,17 +348,18 @@ export class MutagenService {
     async createSession(
         alpha: string, 
         beta: string, 
-        options?: CreateSessionOptions
-    ): Promise<string> {
+        options?: CreateSessionOptions,
+        token?: vscode.CancellationToken
+    ): Promise<MutagenSession> {
         const args = ['sync', 'create', alpha, beta];
+        const correlationId = crypto.randomUUID();
+        const labels = { ...options?.labels, [SESSION_CORRELATION_LABEL]: correlationId };
 
         if (options?.name) {
             args.push('--name', options.name);
         }
-        if (options?.labels) {
-            for (const [key, value] of Object.entries(options.labels)) {
-                args.push('--label', `${key}=${value}`);
-            }
+        for (const [key, value] of Object.entries(labels)) {
+            args.push('--label', `${key}=${value}`);
         }
         if (options?.paused) {
             args.push('--paused');
@@ -192,107 +377,301 @@ export class MutagenService {
                 args.push('--ignore', path);
             }
         }
-        if (options?.symlinkMode) {
-            args.push('--symlink-mode', options.symlinkMode);
+        if (options) {
+            this.appendAdvancedOptionArgs(args, options);
         }
-        if (options?.watchMode) {
-            args.push('--watch-mode', options.watchMode);
+
+        await this.execute(args, { token });
+        Logger.info(`Created sync session: ${alpha} <-> ${beta}`);
+
+        // Resolve the identifier through the unique label instead of parsing CLI output
+        const [session] = await this.listSessionsByLabelSelector(
+            `${SESSION_CORRELATION_LABEL}=${correlationId}`,
+            token
+        );
+        if (!session) {
+            throw new Error(`Session ${alpha} <-> ${beta} was created but could not be located by its correlation label`);
         }
-        if (options?.compression) {
+
+        Logger.debug(`Resolved created session identifier: ${session.identifier}`);
+        return session;
+    }
+
+    private appendAdvancedOptionArgs(args: string[], options: AdvancedSessionOptions): void {
+        if (options.permissionsMode) {
+            args.push('--permissions-mode', options.permissionsMode);
+        }
+        if (options.maxEntryCount !== undefined) {
+            args.push('--max-entry-count', String(options.maxEntryCount));
+        }
+        if (options.ignoreSyntax) {
+            if (this.hasCapability('ignoreSyntax')) {
+                args.push('--ignore-syntax', options.ignoreSyntax);
+            } else {
+                Logger.warn(`Ignoring --ignore-syntax ${options.ignoreSyntax}: not supported by Mutagen ${this.version?.raw}`);
+            }
+        }
+        if (options.symlinkMode) {
+            args.push('--symlink-mode', options.symlinkMode);
+        }
+        if (options.compression) {
             args.push('--compression', options.compression);
         }
 
-        const output = await this.execute(args);
-        Logger.info(`Created sync session: ${alpha} <-> ${beta}`);
-        
-        const match = output.match(/Created session\s+"?([^"\s]+)"?/i) || 
-                      output.match(/([a-zA-Z0-9_]+)/);
-        return match ? match[1] : '';
+        this.appendEndpointOptionArgs(args, options, '');
+        if (options.alpha) {
+            this.appendEndpointOptionArgs(args, options.alpha, '-alpha');
+        }
+        if (options.beta) {
+            this.appendEndpointOptionArgs(args, options.beta, '-beta');
+        }
+    }
+
+    private appendEndpointOptionArgs(args: string[], options: EndpointSessionOptions, suffix: string): void {
+        const flags: [string, string | number | undefined][] = [
+            ['--default-file-mode', options.defaultFileMode],
+            ['--default-directory-mode', options.defaultDirectoryMode],
+            ['--default-owner', options.defaultOwner],
+            ['--default-group', options.defaultGroup],
+            ['--scan-mode', options.scanMode],
+            ['--stage-mode', options.stageMode],
+            ['--probe-mode', options.probeMode],
+            ['--max-staging-file-size', options.maxStagingFileSize],
+            ['--watch-mode', options.watchMode],
+            ['--watch-polling-interval', options.watchPollingInterval]
+        ];
+
+        for (const [flag, value] of flags) {
+            if (value !== undefined && value !== '') {
+                args.push(`${flag}${suffix}`, String(value));
+            }
+        }
     }
 
     async recreateSession(
         identifier: string,
         alpha: string,
         beta: string,
-        options?: CreateSessionOptions
-    ): Promise<string> {
-        await this.terminateSession(identifier);
-        return this.createSession(alpha, beta, options);
-    }
+        options?: CreateSessionOptions,
+        token?: vscode.CancellationToken
+    ): Promise<MutagenSession> {
+        await this.terminateSession(identifier, token);
 
-    async findSessionByIdentifier(identifier: string): Promise<MutagenSession | null> {
-        return this.getSession(identifier);
+        // Past this point cancelling would leave nothing in place of the terminated session
+        try {
+            return await this.createSession(alpha, beta, options);
+        } catch (err) {
+            const output = err instanceof MutagenError ? err.summary : err instanceof Error ? err.message : String(err);
+            throw new SessionReplacementError(output, identifier);
+        }
     }
 
-    async findSessionByEndpoints(localPath: string, remotePath: string): Promise<MutagenSession | null> {
-        const sessions = await this.listSessions();
-        for (const session of sessions) {
-            const local = session.alpha.protocol === 'local' ? session.alpha : session.beta;
-            const remote = session.alpha.protocol === 'local' ? session.beta : session.alpha;
-
-            if (local.path !== localPath) {
-                continue;
-            }
+    async findSessionByIdentifier(
+        identifier: string,
+        token?: vscode.CancellationToken
+    ): Promise<MutagenSession | null> {
+        return this.getSession(identifier, token);
+    }
 
-            if (this.matchesRemotePath(remote, remotePath)) {
-                return session;
-            }
-        }
+    async findSessionByEndpoints(
+        localPath: string,
+        remotePath: string,
+        token?: vscode.CancellationToken
+    ): Promise<MutagenSession | null> {
+        const sessions = await this.listSessions(token);
+        return sessions.find(session => this.sessionMatchesEndpoints(session, localPath, remotePath)) ?? null;
+    }
 
-        return null;
+    sessionMatchesEndpoints(session: MutagenSession, localPath: string, remotePath: string): boolean {
+        const local = session.alpha.protocol === 'local' ? session.alpha : session.beta;
+        const remote = session.alpha.protocol === 'local' ? session.beta : session.alpha;
+        return local.path === localPath && this.matchesRemotePath(remote, remotePath);
     }
 
-    async pauseSession(identifier: string): Promise<void> {
-        await this.execute(['sync', 'pause', identifier]);
+    async pauseSession(identifier: string, token?: vscode.CancellationToken): Promise<void> {
+        await this.execute(['sync', 'pause', identifier], { token });
         Logger.info(`Paused session: ${identifier}`);
     }
 
-    async resumeSession(identifier: string): Promise<void> {
-        await this.execute(['sync', 'resume', identifier]);
+    async resumeSession(identifier: string, token?: vscode.CancellationToken): Promise<void> {
+        await this.execute(['sync', 'resume', identifier], { token });
         Logger.info(`Resumed session: ${identifier}`);
     }
 
-    async terminateSession(identifier: string): Promise<void> {
-        await this.execute(['sync', 'terminate', identifier]);
+    async terminateSession(identifier: string, token?: vscode.CancellationToken): Promise<void> {
+        await this.execute(['sync', 'terminate', identifier], { token });
         Logger.info(`Terminated session: ${identifier}`);
     }
 
-    async flushSession(identifier: string): Promise<void> {
-        await this.execute(['sync', 'flush', identifier, '--skip-wait']);
+    async flushSession(identifier: string, token?: vscode.CancellationToken): Promise<void> {
+        await this.execute(['sync', 'flush', identifier, '--skip-wait'], { token });
         Logger.info(`Flushed session: ${identifier}`);
     }
 
-    async resetSession(identifier: string): Promise<void> {
-        await this.execute(['sync', 'reset', identifier]);
+    async resetSession(identifier: string, token?: vscode.CancellationToken): Promise<void> {
+        await this.execute(['sync', 'reset', identifier], { token });
         Logger.info(`Reset session history: ${identifier}`);
     }
 
-    startMonitor(
-        identifier: string,
-        onUpdate: (session: MutagenSession) => void,
-        onError: (error: Error) => void
+    /**
+     * Run a lifecycle command against every session matching a label selector,
+     * e.g. `team=ml` or `env in (dev,staging)`.
+     */
+    async runSessionCommandByLabel(
+        command: LabelSelectorCommand,
+        labelSelector: string,
+        token?: vscode.CancellationToken
+    ): Promise<void> {
+        const args = ['sync', command, '--label-selector', labelSelector];
+        if (command === 'flush') {
+            args.push('--skip-wait');
+        }
+
+        await this.execute(args, { token });
+        Logger.info(`Ran sync ${command} for label selector: ${labelSelector}`);
+    }
+
+    async listForwardSessions(): Promise<MutagenForwardSession[]> {
+        try {
+            const output = await this.execute(
+                ['forward', 'list', '--template', '{{json .}}'],
+                { commandKey: 'forward-list' }
+            );
+
+            if (!output.trim()) {
+                return [];
+            }
+
+            const sessions = JSON.parse(output);
+            return Array.isArray(sessions) ? sessions : [sessions];
+        } catch (err) {
+            const errorMessage = err instanceof Error ? err.message : String(err);
+            if (errorMessage.includes('no forwarding sessions exist')) {
+                return [];
+            }
+            throw err;
+        }
+    }
+
+    async createForwardSession(
+        source: string,
+        destination: string,
+        options?: CreateForwardOptions
+    ): Promise<void> {
+        const args = ['forward', 'create', source, destination];
+
+        if (options?.name) {
+            args.push('--name', options.name);
+        }
+        if (options?.labels) {
+            for (const [key, value] of Object.entries(options.labels)) {
+                args.push('--label', `${key}=${value}`);
+            }
+        }
+        if (options?.paused) {
+            args.push('--paused');
+        }
+
+        await this.execute(args);
+        Logger.info(`Created forwarding session: ${source} -> ${destination}`);
+    }
+
+    async pauseForwardSession(identifier: string): Promise<void> {
+        await this.execute(['forward', 'pause', identifier]);
+        Logger.info(`Paused forwarding session: ${identifier}`);
+    }
+
+    async resumeForwardSession(identifier: string): Promise<void> {
+        await this.execute(['forward', 'resume', identifier]);
+        Logger.info(`Resumed forwarding session: ${identifier}`);
+    }
+
+    async terminateForwardSession(identifier: string): Promise<void> {
+        await this.execute(['forward', 'terminate', identifier]);
+        Logger.info(`Terminated forwarding session: ${identifier}`);
+    }
+
+    async startProject(projectFile: string, token?: vscode.CancellationToken): Promise<void> {
+        await this.executeProjectCommand('start', projectFile, token);
+        Logger.info(`Started project: ${projectFile}`);
+    }
+
+    async terminateProject(projectFile: string, token?: vscode.CancellationToken): Promise<void> {
+        await this.executeProjectCommand('terminate', projectFile, token);
+        Logger.info(`Terminated project: ${projectFile}`);
+    }
+
+    async flushProject(projectFile: string, token?: vscode.CancellationToken): Promise<void> {
+        await this.executeProjectCommand('flush', projectFile, token);
+        Logger.info(`Flushed project: ${projectFile}`);
+    }
+
+    async pauseProject(projectFile: string, token?: vscode.CancellationToken): Promise<void> {
+        await this.executeProjectCommand('pause', projectFile, token);
+        Logger.info(`Paused project: ${projectFile}`);
+    }
+
+    async resumeProject(projectFile: string, token?: vscode.CancellationToken): Promise<void> {
+        await this.executeProjectCommand('resume', projectFile, token);
+        Logger.info(`Resumed project: ${projectFile}`);
+    }
+
+    private async executeProjectCommand(
+        command: string,
+        projectFile: string,
+        token?: vscode.CancellationToken
+    ): Promise<string> {
+        // Relative endpoint paths and hooks in mutagen.yml resolve against the project directory
+        return this.execute(
+            ['project', command, '--project-file', projectFile],
+            { commandKey: `project-${command}-${projectFile}`, cwd: path.dirname(projectFile), token }
+        );
+    }
+
+    /**
+     * Stream state for every sync session through a single `sync monitor` process.
+     * Each emitted line carries the full session list; onExit fires when the stream ends unexpectedly.
+     */
+    startSessionsMonitor(
+        onUpdate: (sessions: MutagenSession[]) => void,
+        onExit: (error: Error) => void
     ): { stop: () => void } {
-        const args = ['sync', 'monitor', identifier, '--template', '{{json .}}'];
-        
-        Logger.debug(`Starting monitor for session: ${identifier}`);
-        
+        const args = ['sync', 'monitor', '--template', '{{json .}}'];
+
+        Logger.debug('Starting session state monitor');
+
         const monitorProcess = cp.spawn(this.executablePath, args, {
             env: { ...globalThis.process.env }
         });
 
         let buffer = '';
+        let stderr = '';
+        let stopped = false;
+        let exited = false;
+
+        const handleExit = (error: Error) => {
+            if (stopped || exited) {
+                return;
+            }
+            exited = true;
+            onExit(error);
+        };
 
         monitorProcess.stdout.on('data', (data) => {
             buffer += data.toString();
-            
+
             const lines = buffer.split('\n');
             buffer = lines.pop() || '';
-            
+
             for (const line of lines) {
                 if (line.trim()) {
                     try {
-                        const session = JSON.parse(line);
-                        onUpdate(Array.isArray(session) ? session[0] : session);
+                        const parsed = JSON.parse(line);
+                        if (parsed === null) {
+                            onUpdate([]);
+                        } else {
+                            onUpdate(this.normalizeSessions(Array.isArray(parsed) ? parsed : [parsed]));
+                        }
                     } catch (e) {
                         Logger.debug(`Failed to parse monitor output: ${line}`);
                     }
@@ -301,23 +680,24 @@ export class MutagenService {
         });
 
         monitorProcess.stderr.on('data', (data) => {
-            Logger.error(`Monitor stderr: ${data.toString()}`);
+            stderr += data.toString();
+            Logger.debug(`Monitor stderr: ${data.toString()}`);
         });
 
         monitorProcess.on('error', (err) => {
-            onError(err);
+            handleExit(err);
         });
 
         monitorProcess.on('close', (code) => {
-            if (code !== 0) {
-                Logger.debug(`Monitor process exited with code ${code}`);
-            }
+            Logger.debug(`Monitor process exited with code ${code}`);
+            handleExit(new Error(stderr.trim() || `Monitor exited with code ${code}`));
         });
 
         return {
             stop: () => {
+                stopped = true;
                 monitorProcess.kill();
-                Logger.debug(`Stopped monitor for session: ${identifier}`);
+                Logger.debug('Stopped session state monitor');
             }
         };
     }
@@ -366,3 +746,22 @@ export class MutagenService {
         return false;
     }
 }
+
+function parseMutagenVersion(raw: string): MutagenVersion | null {
+    const match = raw.match(/(\d+)\.(\d+)\.(\d+)/);
+    if (!match) {
+        return null;
+    }
+
+    return {
+        major: Number(match[1]),
+        minor: Number(match[2]),
+        patch: Number(match[3]),
+        raw
+    };
+}
+
+function compareVersions(version: MutagenVersion, minimum: string): number {
+    const [major, minor, patch] = minimum.split('.').map(Number);
+    return (version.major - major) || (version.minor - minor) || (version.patch - patch);
+}
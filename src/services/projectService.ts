@@ -0,0 +1,63 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { MUTAGEN_PROJECT_LABEL, MutagenProject, MutagenSession } from '../models/session';
+import { Logger } from '../utils/logger';
+
+export const PROJECT_FILE_NAME = 'mutagen.yml';
+const PROJECT_LOCK_SUFFIX = '.lock';
+
+export class MutagenProjectService {
+    async detectProjects(): Promise<MutagenProject[]> {
+        const projects: MutagenProject[] = [];
+
+        for (const folder of vscode.workspace.workspaceFolders ?? []) {
+            const projectFile = path.join(folder.uri.fsPath, PROJECT_FILE_NAME);
+            if (!(await this.fileExists(projectFile))) {
+                continue;
+            }
+
+            projects.push({
+                name: folder.name,
+                projectFile,
+                workspaceFolder: folder.uri.fsPath,
+                identifier: await this.readProjectIdentifier(projectFile)
+            });
+        }
+
+        return projects;
+    }
+
+    getProjectSessions(project: MutagenProject, sessions: MutagenSession[]): MutagenSession[] {
+        if (!project.identifier) {
+            return [];
+        }
+
+        return sessions.filter(session => session.labels?.[MUTAGEN_PROJECT_LABEL] === project.identifier);
+    }
+
+    private async readProjectIdentifier(projectFile: string): Promise<string | undefined> {
+        try {
+            // Mutagen writes the project identifier into the lock file on `project start`
+            const content = await fs.readFile(`${projectFile}${PROJECT_LOCK_SUFFIX}`, 'utf8');
+            const identifier = content.trim();
+            return identifier.length > 0 ? identifier : undefined;
+        } catch (err) {
+            const code = (err as NodeJS.ErrnoException).code;
+            if (code !== 'ENOENT') {
+                const message = err instanceof Error ? err.message : String(err);
+                Logger.warn(`Failed to read project lock file for ${projectFile}: ${message}`);
+            }
+            return undefined;
+        }
+    }
+
+    private async fileExists(filePath: string): Promise<boolean> {
+        try {
+            const stat = await fs.stat(filePath);
+            return stat.isFile();
+        } catch {
+            return false;
+        }
+    }
+}
@@ -0,0 +1,123 @@
+import * as vscode from 'vscode';
+import { MutagenSession } from '../models/session';
+import { MutagenService } from './mutagenService';
+import { Logger } from '../utils/logger';
+
+/**
+ * Single source of sync session state for the tree, status bar and details panel.
+ * Keeps one long-lived `sync monitor` stream open and only polls `sync list`
+ * while the stream is unavailable.
+ */
+export class SessionStateSource implements vscode.Disposable {
+    private static readonly STREAM_RETRY_DELAY_MS = 60000;
+
+    private readonly _onDidChangeSessions = new vscode.EventEmitter<MutagenSession[]>();
+    readonly onDidChangeSessions = this._onDidChangeSessions.event;
+
+    private readonly _onDidFail = new vscode.EventEmitter<Error>();
+    readonly onDidFail = this._onDidFail.event;
+
+    private service: MutagenService;
+    private sessions: MutagenSession[] = [];
+    private monitor: { stop: () => void } | null = null;
+    private pollInterval: NodeJS.Timeout | null = null;
+    private streamRetryAt = 0;
+    private disposed = false;
+
+    constructor() {
+        this.service = MutagenService.getInstance();
+    }
+
+    getSessions(): MutagenSession[] {
+        return this.sessions;
+    }
+
+    async refresh(): Promise<MutagenSession[]> {
+        try {
+            const sessions = await this.service.listSessions();
+            this.publish(sessions);
+            return sessions;
+        } finally {
+            this.ensureSource();
+        }
+    }
+
+    updateConfig(): void {
+        if (this.pollInterval) {
+            this.stopPolling();
+            this.startPolling();
+        }
+    }
+
+    private publish(sessions: MutagenSession[]): void {
+        this.sessions = sessions;
+        this._onDidChangeSessions.fire(sessions);
+    }
+
+    private ensureSource(): void {
+        if (this.disposed || this.monitor) {
+            return;
+        }
+
+        // Releases without streaming monitor output can only be polled
+        if (this.service.hasCapability('sessionMonitorStream') && Date.now() >= this.streamRetryAt) {
+            this.startStream();
+            return;
+        }
+
+        this.startPolling();
+    }
+
+    private startStream(): void {
+        this.monitor = this.service.startSessionsMonitor(
+            (sessions) => this.handleStreamUpdate(sessions),
+            (error) => {
+                this.monitor = null;
+                if (this.disposed) {
+                    return;
+                }
+
+                this.streamRetryAt = Date.now() + SessionStateSource.STREAM_RETRY_DELAY_MS;
+                Logger.warn(`Session monitor stream stopped, falling back to polling: ${error.message}`);
+                this.startPolling();
+            }
+        );
+    }
+
+    private handleStreamUpdate(sessions: MutagenSession[]): void {
+        // A live stream makes polling redundant again
+        this.stopPolling();
+        this.publish(sessions);
+    }
+
+    private startPolling(): void {
+        if (this.pollInterval || this.disposed) {
+            return;
+        }
+
+        const config = vscode.workspace.getConfiguration('mutagen');
+        const interval = config.get<number>('refreshInterval', 5000);
+
+        this.pollInterval = setInterval(() => {
+            this.refresh().catch(err => {
+                this._onDidFail.fire(err instanceof Error ? err : new Error(String(err)));
+            });
+        }, interval);
+    }
+
+    private stopPolling(): void {
+        if (this.pollInterval) {
+            clearInterval(this.pollInterval);
+            this.pollInterval = null;
+        }
+    }
+
+    dispose(): void {
+        this.disposed = true;
+        this.stopPolling();
+        this.monitor?.stop();
+        this.monitor = null;
+        this._onDidChangeSessions.dispose();
+        this._onDidFail.dispose();
+    }
+}
@@ -0,0 +1,27 @@
+/**
+ * Runs `task` over `items` with at most `limit` tasks in flight and settles
+ * every item, so one failure never aborts the rest of the batch.
+ */
+export async function runWithConcurrency<T, R>(
+    items: readonly T[],
+    limit: number,
+    task: (item: T) => Promise<R>
+): Promise<PromiseSettledResult<R>[]> {
+    const results: PromiseSettledResult<R>[] = new Array(items.length);
+    let nextIndex = 0;
+
+    const worker = async () => {
+        while (nextIndex < items.length) {
+            const index = nextIndex++;
+            try {
+                results[index] = { status: 'fulfilled', value: await task(items[index]) };
+            } catch (reason) {
+                results[index] = { status: 'rejected', reason };
+            }
+        }
+    };
+
+    const workerCount = Math.max(1, Math.min(limit, items.length));
+    await Promise.all(Array.from({ length: workerCount }, () => worker()));
+    return results;
+}
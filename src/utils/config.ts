@@ -1,5 +1,6 @@
 import * as path from 'path';
 import * as vscode from 'vscode';
+import { ConflictPolicy, parseConflictPolicies } from '../models/session';
 
 export function mergeIgnorePatterns(...groups: Array<readonly string[] | undefined>): string[] {
     const merged = new Set<string>();
@@ -39,6 +40,14 @@ export function getMergedGlobalIgnorePatterns(workspaceFolderUri?: vscode.Uri):
     return mergeIgnorePatterns(globalValue, workspaceValue, workspaceFolderValue);
 }
 
+/**
+ * Policies overwrite files without asking, so only user (or remote machine) settings
+ * count; a cloned repository's workspace settings must not be able to enable them.
+ */
+export function getConflictPolicies(): ConflictPolicy[] {
+    return parseConflictPolicies(vscode.workspace.getConfiguration('mutagen').inspect<unknown>('conflictPolicies')?.globalValue);
+}
+
 export function getWorkspaceFolderForPath(localPath: string): vscode.WorkspaceFolder | undefined {
     const localUri = vscode.Uri.file(localPath);
     const directMatch = vscode.workspace.getWorkspaceFolder(localUri);
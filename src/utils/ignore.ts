@@ -0,0 +1,91 @@
+/**
+ * Minimal evaluator for Mutagen's default (gitignore-like) ignore syntax. Ignore
+ * decorations use it for display only, with Mutagen as the source of truth; conflict
+ * policies use it to pick which paths are resolved automatically, so keep it strict.
+ */
+
+interface CompiledIgnorePattern {
+    negated: boolean;
+    regex: RegExp;
+}
+
+const compiledPatternCache = new Map<string, CompiledIgnorePattern | null>();
+
+export function isPathIgnored(relativePath: string, patterns: readonly string[]): boolean {
+    const segments = relativePath.replace(/\\/g, '/').split('/').filter(segment => segment.length > 0);
+    if (segments.length === 0 || patterns.length === 0) {
+        return false;
+    }
+
+    // A path is ignored when it or any of its ancestors is matched by the last applicable pattern
+    for (let depth = 1; depth <= segments.length; depth++) {
+        if (matchesPatterns(segments.slice(0, depth).join('/'), patterns)) {
+            return true;
+        }
+    }
+    return false;
+}
+
+export function matchesPathPattern(relativePath: string, pattern: string): boolean {
+    return isPathIgnored(relativePath, [pattern]);
+}
+
+function matchesPatterns(candidate: string, patterns: readonly string[]): boolean {
+    let ignored = false;
+    for (const pattern of patterns) {
+        const compiled = compilePattern(pattern);
+        if (compiled && compiled.regex.test(candidate)) {
+            ignored = !compiled.negated;
+        }
+    }
+    return ignored;
+}
+
+function compilePattern(pattern: string): CompiledIgnorePattern | null {
+    if (compiledPatternCache.has(pattern)) {
+        return compiledPatternCache.get(pattern) ?? null;
+    }
+
+    let body = pattern.trim();
+    const negated = body.startsWith('!');
+    if (negated) {
+        body = body.slice(1);
+    }
+
+    // Directory-only markers cannot be checked without stat calls; treat them as plain patterns
+    body = body.replace(/\/+$/, '');
+
+    const anchored = body.startsWith('/') || body.includes('/');
+    body = body.replace(/^\/+/, '');
+
+    const compiled = body
+        ? { negated, regex: new RegExp(`^${anchored ? '' : '(?:.*/)?'}${globToRegexSource(body)}$`) }
+        : null;
+    compiledPatternCache.set(pattern, compiled);
+    return compiled;
+}
+
+function globToRegexSource(glob: string): string {
+    let source = '';
+    for (let index = 0; index < glob.length; index++) {
+        const char = glob[index];
+        if (char === '\\' && index + 1 < glob.length) {
+            // A backslash makes the next character literal, as in escaped problem-path ignores
+            source += glob[++index].replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+        } else if (char === '*') {
+            if (glob[index + 1] === '*') {
+                // `**/` matches zero or more directories, a trailing `**` matches everything
+                const followedBySlash = glob[index + 2] === '/';
+                source += followedBySlash ? '(?:.*/)?' : '.*';
+                index += followedBySlash ? 2 : 1;
+            } else {
+                source += '[^/]*';
+            }
+        } else if (char === '?') {
+            source += '[^/]';
+        } else {
+            source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+        }
+    }
+    return source;
+}
@@ -0,0 +1,142 @@
+/**
+ * Two-way text merge used to seed the conflict merge editor. Without a common
+ * ancestor every differing hunk is a conflict, so the result interleaves
+ * shared lines with git-style conflict blocks for the user to resolve.
+ */
+
+export interface ConflictMarkerLabels {
+    current: string;
+    incoming: string;
+}
+
+export interface MergeSeed {
+    text: string;
+    conflictCount: number;
+}
+
+// Beyond this many DP cells the diff degrades to a single hunk around the common prefix and suffix
+const MAX_DIFF_CELLS = 4_000_000;
+
+const CONFLICT_MARKER_PATTERN = /^(?:<{7}|={7}|>{7})(?: |$)/m;
+
+export function hasConflictMarkers(text: string): boolean {
+    return CONFLICT_MARKER_PATTERN.test(text);
+}
+
+export function isProbablyBinary(text: string): boolean {
+    return text.includes('\0');
+}
+
+export function buildConflictMarkedText(current: string, incoming: string, labels: ConflictMarkerLabels): MergeSeed {
+    if (current === incoming) {
+        return { text: current, conflictCount: 0 };
+    }
+
+    const eol = current.includes('\r\n') ? '\r\n' : '\n';
+    const currentLines = splitLines(current);
+    const incomingLines = splitLines(incoming);
+
+    let prefix = 0;
+    while (prefix < currentLines.length && prefix < incomingLines.length && currentLines[prefix] === incomingLines[prefix]) {
+        prefix++;
+    }
+
+    let suffix = 0;
+    while (
+        suffix < currentLines.length - prefix
+        && suffix < incomingLines.length - prefix
+        && currentLines[currentLines.length - 1 - suffix] === incomingLines[incomingLines.length - 1 - suffix]
+    ) {
+        suffix++;
+    }
+
+    const currentMiddle = currentLines.slice(prefix, currentLines.length - suffix);
+    const incomingMiddle = incomingLines.slice(prefix, incomingLines.length - suffix);
+
+    const output: string[] = currentLines.slice(0, prefix);
+    let conflictCount = 0;
+    const pushConflict = (ours: string[], theirs: string[]) => {
+        if (ours.length === 0 && theirs.length === 0) {
+            return;
+        }
+        output.push(`<<<<<<< ${labels.current}`, ...ours, '=======', ...theirs, `>>>>>>> ${labels.incoming}`);
+        conflictCount++;
+    };
+
+    if (currentMiddle.length * incomingMiddle.length > MAX_DIFF_CELLS) {
+        pushConflict(currentMiddle, incomingMiddle);
+    } else {
+        let pendingOurs: string[] = [];
+        let pendingTheirs: string[] = [];
+        for (const [kind, line] of diffLines(currentMiddle, incomingMiddle)) {
+            if (kind === 'same') {
+                pushConflict(pendingOurs, pendingTheirs);
+                pendingOurs = [];
+                pendingTheirs = [];
+                output.push(line);
+            } else if (kind === 'current') {
+                pendingOurs.push(line);
+            } else {
+                pendingTheirs.push(line);
+            }
+        }
+        pushConflict(pendingOurs, pendingTheirs);
+    }
+
+    output.push(...currentLines.slice(currentLines.length - suffix));
+
+    const trailingNewline = current.endsWith('\n') || (current.length === 0 && incoming.endsWith('\n'));
+    return {
+        text: output.join(eol) + (trailingNewline ? eol : ''),
+        conflictCount
+    };
+}
+
+function splitLines(text: string): string[] {
+    if (text.length === 0) {
+        return [];
+    }
+
+    const lines = text.split(/\r?\n/);
+    // A trailing newline terminates the last line rather than starting an empty one
+    if (lines[lines.length - 1] === '') {
+        lines.pop();
+    }
+    return lines;
+}
+
+function diffLines(current: string[], incoming: string[]): Array<['same' | 'current' | 'incoming', string]> {
+    const rows = current.length + 1;
+    const columns = incoming.length + 1;
+    const lengths = new Uint32Array(rows * columns);
+
+    for (let i = current.length - 1; i >= 0; i--) {
+        for (let j = incoming.length - 1; j >= 0; j--) {
+            lengths[i * columns + j] = current[i] === incoming[j]
+                ? lengths[(i + 1) * columns + j + 1] + 1
+                : Math.max(lengths[(i + 1) * columns + j], lengths[i * columns + j + 1]);
+        }
+    }
+
+    const result: Array<['same' | 'current' | 'incoming', string]> = [];
+    let i = 0;
+    let j = 0;
+    while (i < current.length && j < incoming.length) {
+        if (current[i] === incoming[j]) {
+            result.push(['same', current[i]]);
+            i++;
+            j++;
+        } else if (lengths[(i + 1) * columns + j] >= lengths[i * columns + j + 1]) {
+            result.push(['current', current[i++]]);
+        } else {
+            result.push(['incoming', incoming[j++]]);
+        }
+    }
+    while (i < current.length) {
+        result.push(['current', current[i++]]);
+    }
+    while (j < incoming.length) {
+        result.push(['incoming', incoming[j++]]);
+    }
+    return result;
+}